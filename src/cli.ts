@@ -5,10 +5,26 @@ import dotenv from "dotenv";
 dotenv.config();
 
 import { Command } from "commander";
-import { writeFileSync } from "fs";
-import { fetchConfluencePage } from "./fetcher/confluence";
+import { readFileSync, writeFileSync } from "fs";
+import { stringify as stringifyYAML } from "yaml";
+import { fetchConfluencePageContent, fetchConfluencePageTree } from "./fetcher/confluence";
 import { parseERDFromHTML, validateSchema } from "./parser/erd-parser";
-import { startMockServer } from "./server/mock-server";
+import { fetchSpecDocument } from "./fetcher/spec";
+import { parseOpenAPIDocument } from "./parser/openapi-parser";
+import { mergeSchemas, SchemaSource } from "./parser/schema-merge";
+import { MockSchema } from "./parser/schema-types";
+import { createSnapshot, readSnapshot, SnapshotSource, writeSnapshot } from "./parser/snapshot";
+import { exportToOpenAPI } from "./exporter/openapi-exporter";
+import { verifyContracts } from "./verifier/contract-verifier";
+import { printReport, toJSONReport, toJUnitReport } from "./verifier/report";
+import { MockServerHandle, MockServerOptions, startMockServer } from "./server/mock-server";
+import { ChaosSettings, parseChaosSpec } from "./server/chaos";
+import { MockUser, parseMockUsers } from "./server/mock-auth";
+import { resolveLocale } from "./server/locales";
+import { DataRules, findConfigFile, loadDataRules } from "./server/data-rules";
+import { parseReplayMatchRules, RecordingLibrary, ReplayMatchRules } from "./recorder/recordings";
+import { recordingsToSchema } from "./recorder/promote";
+import { watchSources, WatchTarget } from "./watcher/source-watcher";
 import packageJson from "../package.json";
 
 const banner = `
@@ -21,97 +37,684 @@ const banner = `
   Generate mock API servers from Confluence docs
 `;
 
+/**
+ * Commander reducer for options that may be passed more than once
+ */
+function collect(value: string, previous: string[] = []): string[] {
+  return previous.concat([value]);
+}
+
+/**
+ * Parses repeated "Name: value" / "name=value" options into a map
+ */
+function parsePairs(values: string[] = [], separator: ":" | "="): Record<string, string> {
+  const pairs: Record<string, string> = {};
+  for (const value of values) {
+    const index = value.indexOf(separator);
+    if (index <= 0) {
+      throw new Error(`Invalid value "${value}". Expected the form name${separator === ":" ? ": " : "="}value.`);
+    }
+    pairs[value.slice(0, index).trim()] = value.slice(index + 1).trim();
+  }
+  return pairs;
+}
+
+type SourceFormat = "erd" | "openapi";
+
+/**
+ * Picks the parser for a --url source: an explicit --format wins,
+ * otherwise .json/.yaml/.yml files are treated as OpenAPI/Swagger specs.
+ */
+function resolveSourceFormat(url: string, format: string): SourceFormat {
+  if (format === "erd" || format === "openapi") return format;
+  const pathname = url.split(/[?#]/)[0].toLowerCase();
+  return /\.(json|ya?ml)$/.test(pathname) ? "openapi" : "erd";
+}
+
+interface SourceOptions {
+  url?: string[];
+  tree?: string[];
+  format: string;
+  fallback?: string;
+  email?: string;
+  token?: string;
+  debug?: boolean;
+}
+
+/**
+ * Registers the options shared by every command that reads API definitions
+ */
+function addSourceOptions(command: Command): Command {
+  return command
+    .option(
+      "-u, --url <url>",
+      "Confluence page URL or OpenAPI/Swagger file containing API definitions (repeatable)",
+      collect
+    )
+    .option(
+      "--tree <pageId>",
+      "Load a Confluence page and all of its child pages via the REST API (repeatable)",
+      collect
+    )
+    .option(
+      "--format <format>",
+      "Source format for --url: auto, erd or openapi (auto uses the file extension)",
+      "auto"
+    )
+    .option(
+      "-f, --fallback <url>",
+      "Fallback base URL to proxy requests not found in the ERD"
+    )
+    .option(
+      "-e, --email <email>",
+      "Confluence email (overrides CONFLUENCE_EMAIL env var)"
+    )
+    .option(
+      "-t, --token <token>",
+      "Confluence API token (overrides CONFLUENCE_API_TOKEN env var)"
+    )
+    .option("-d, --debug", "Enable debug mode (saves HTML to debug.html)");
+}
+
+interface LoadedSchema {
+  schema: MockSchema;
+  sources: SnapshotSource[];
+}
+
+/**
+ * Registers the options shared by every command that starts a mock server
+ */
+function addServerOptions(command: Command): Command {
+  return command
+    .option("-p, --port <port>", "Port for mock server", "4000")
+    .option(
+      "--delay <ms>",
+      "Response delay in milliseconds to simulate real API latency",
+      "0"
+    )
+    .option(
+      "--validate-requests",
+      "Reject POST/PUT/PATCH bodies that don't match the documented request template"
+    )
+    .option("--seed <n>", "Seed for reproducible generated data")
+    .option("--config <file>", "Data generation rules (defaults to mockmock.config.json, .yaml or .yml in the current directory)")
+    .option("--literal", "Serve documented samples exactly as written instead of generating data")
+    .option("--locale <code>", "Language of generated text, e.g. ar or fr (localized { en, ar } fields get every language)", "en")
+    .option("--data-file <file>", "Load collections from this file and save changes back to it")
+    .option("--cascade-deletes", "Deleting an item also deletes its sub-collections (e.g. /orders/5/items)")
+    .option("--per-page <n>", "Paginate collection GET endpoints by default with this page size")
+    .option("--page-param <name>", "Query parameter holding the page number", "page")
+    .option("--per-page-param <name>", "Query parameter holding the page size", "per_page")
+    .option(
+      "--chaos [settings]",
+      "Inject random faults; optionally tune them, e.g. errorRate=0.2,latencyMax=3000"
+    )
+    .option("--chaos-seed <n>", "Seed for a reproducible sequence of injected faults")
+    .option("--record <dir>", "Save every request/response proxied to --fallback in this directory")
+    .option("--replay <dir>", "Answer unmatched requests from recordings saved with --record")
+    .option(
+      "--replay-match <rules>",
+      "What a request must share with a recording besides method and path: query, body, both or neither (path)",
+      "query"
+    )
+    .option("--journal-size <n>", "How many recent requests GET /_journal keeps (0 disables it)", "1000")
+    .option("--enforce-auth", "Answer 401/403 without documented credentials and 400 without required headers")
+    .option("--auth-users <file>", "JSON file with the users the mock login accepts (username, password, role...)")
+    .option("--auth-login <path>", "Path of the mock login; logout and me live next to it", "/auth/login")
+    .option("--token-ttl <seconds>", "How long tokens from the mock login stay valid", "3600")
+    .option("--watch", "Reload endpoints when the source changes, keeping unchanged data")
+    .option(
+      "--watch-interval <seconds>",
+      "How often remote sources are polled in --watch mode",
+      "15"
+    );
+}
+
+function toServerOptions(options: Record<string, unknown>): MockServerOptions {
+  let seed: number | undefined;
+  if (options.seed !== undefined) {
+    seed = Number(options.seed);
+    if (!Number.isInteger(seed)) {
+      console.error("❌ Invalid seed. Must be an integer.");
+      process.exit(1);
+    }
+  }
+
+  let defaultPerPage: number | undefined;
+  if (options.perPage !== undefined) {
+    defaultPerPage = Number(options.perPage);
+    if (!Number.isInteger(defaultPerPage) || defaultPerPage < 1) {
+      console.error("❌ Invalid page size. Must be a positive integer.");
+      process.exit(1);
+    }
+  }
+
+  let chaos: Partial<ChaosSettings> | undefined;
+  if (options.chaos !== undefined) {
+    try {
+      chaos = typeof options.chaos === "string" ? parseChaosSpec(options.chaos) : {};
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : "Invalid chaos settings"}`);
+      process.exit(1);
+    }
+  }
+
+  let chaosSeed: number | undefined;
+  if (options.chaosSeed !== undefined) {
+    chaosSeed = Number(options.chaosSeed);
+    if (!Number.isInteger(chaosSeed)) {
+      console.error("❌ Invalid chaos seed. Must be an integer.");
+      process.exit(1);
+    }
+  }
+
+  let replayMatch: ReplayMatchRules;
+  try {
+    replayMatch = parseReplayMatchRules(options.replayMatch as string);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : "Invalid replay match rules"}`);
+    process.exit(1);
+  }
+
+  const journalSize = Number(options.journalSize);
+  if (!Number.isInteger(journalSize) || journalSize < 0) {
+    console.error("❌ Invalid journal size. Must be a non-negative integer.");
+    process.exit(1);
+  }
+
+  const locale = options.locale as string;
+  if (!resolveLocale(locale)) {
+    console.error(`❌ Unsupported locale "${locale}". Use a code such as en, ar, fr or pt-BR.`);
+    process.exit(1);
+  }
+
+  let dataRules: DataRules | undefined;
+  const configFile = (options.config as string | undefined) ?? findConfigFile(process.cwd());
+  if (configFile) {
+    try {
+      dataRules = loadDataRules(configFile);
+      console.log(`⚙️  Data rules loaded from ${configFile}`);
+    } catch (error) {
+      console.error(`❌ Invalid config ${configFile}: ${error instanceof Error ? error.message : "unreadable"}`);
+      process.exit(1);
+    }
+  }
+
+  let authUsers: MockUser[] | undefined;
+  if (options.authUsers !== undefined) {
+    try {
+      authUsers = parseMockUsers(readFileSync(options.authUsers as string, "utf-8"));
+    } catch (error) {
+      console.error(`❌ Invalid auth users file: ${error instanceof Error ? error.message : "unreadable"}`);
+      process.exit(1);
+    }
+  }
+
+  const authLoginPath = options.authLogin as string;
+  if (!authLoginPath.startsWith("/")) {
+    console.error("❌ Invalid login path. Must start with \"/\".");
+    process.exit(1);
+  }
+
+  const tokenTtl = Number(options.tokenTtl);
+  if (!Number.isInteger(tokenTtl) || tokenTtl < 1) {
+    console.error("❌ Invalid token TTL. Must be a positive number of seconds.");
+    process.exit(1);
+  }
+
+  return {
+    validateRequests: !!options.validateRequests,
+    seed,
+    locale,
+    dataRules,
+    literal: !!options.literal,
+    dataFile: options.dataFile as string | undefined,
+    cascadeDeletes: !!options.cascadeDeletes,
+    chaos,
+    chaosSeed,
+    recordDir: options.record as string | undefined,
+    replayDir: options.replay as string | undefined,
+    replayMatch,
+    journalSize,
+    enforceAuth: !!options.enforceAuth,
+    authUsers,
+    authLoginPath,
+    tokenTtl,
+    pagination: {
+      pageParam: options.pageParam as string,
+      perPageParam: options.perPageParam as string,
+      defaultPerPage,
+    },
+  };
+}
+
+/**
+ * Fetches every --url / --tree source, parses it and merges the results
+ * into a single validated schema.
+ */
+async function loadSchema(options: SourceOptions): Promise<LoadedSchema> {
+  if (options.email) process.env.CONFLUENCE_EMAIL = options.email;
+  if (options.token) process.env.CONFLUENCE_API_TOKEN = options.token;
+
+  const urls = options.url ?? [];
+  const trees = options.tree ?? [];
+  const fallbackUrl = options.fallback;
+
+  if (urls.length === 0 && trees.length === 0) {
+    throw new Error("Provide at least one --url or --tree source.");
+  }
+
+  if (!["auto", "erd", "openapi"].includes(options.format)) {
+    throw new Error("Invalid format. Must be one of: auto, erd, openapi.");
+  }
+
+  // Step 1: Fetch HTML from Confluence (or spec documents)
+  const pages: Array<{ source: string; html: string; format: SourceFormat; version?: number }> = [];
+  for (const url of urls) {
+    const format = resolveSourceFormat(url, options.format);
+    if (format === "openapi") {
+      console.log(`📄 Fetching OpenAPI document: ${url}`);
+      pages.push({ source: url, html: await fetchSpecDocument(url), format });
+    } else {
+      console.log(`📄 Fetching Confluence page: ${url}`);
+      const { html, version } = await fetchConfluencePageContent(url);
+      pages.push({ source: url, html, format, version });
+    }
+  }
+  for (const tree of trees) {
+    console.log(`🌳 Fetching Confluence page tree: ${tree}`);
+    const treePages = await fetchConfluencePageTree(tree, urls[0]);
+    for (const page of treePages) {
+      console.log(`   • ${page.title} (${page.id})`);
+      pages.push({
+        source: `${page.title} (${page.id})`,
+        html: page.html,
+        format: "erd",
+        version: page.version,
+      });
+    }
+  }
+  console.log(`✅ Fetched ${pages.length} page(s) successfully\n`);
+
+  // Debug mode: save HTML to file
+  if (options.debug) {
+    const htmlPages = pages.filter(page => page.format === "erd");
+    htmlPages.forEach((page, i) => {
+      const debugFile = htmlPages.length === 1 ? "debug.html" : `debug-${i + 1}.html`;
+      writeFileSync(debugFile, page.html);
+      console.log(`🐛 Debug: HTML for ${page.source} saved to ${debugFile}`);
+    });
+    console.log();
+  }
+
+  // Step 2: Parse endpoints
+  console.log("🔍 Parsing API endpoints...");
+  const sources: SchemaSource[] = [];
+  for (const page of pages) {
+    const pageSchema = page.format === "openapi"
+      ? parseOpenAPIDocument(page.html)
+      : await parseERDFromHTML(page.html, { fallbackBaseUrl: fallbackUrl });
+    if (pages.length > 1) {
+      console.log(`   ${page.source}: ${pageSchema.length} endpoint(s)`);
+    }
+    sources.push({ source: page.source, schema: pageSchema });
+  }
+
+  const { schema, duplicates } = mergeSchemas(sources);
+
+  if (duplicates.length > 0) {
+    console.warn(`\n⚠️  ${duplicates.length} endpoint(s) are documented on more than one page:`);
+    for (const dup of duplicates) {
+      console.warn(`   ${dup.method.padEnd(6)} ${dup.path}`);
+      console.warn(`      using:   ${dup.keptFrom}`);
+      console.warn(`      ignored: ${dup.ignoredFrom.join(", ")}`);
+    }
+    console.warn();
+  }
+
+  if (options.debug && schema.length > 0) {
+    console.log("🐛 Debug: Parsed endpoints:");
+    console.log(JSON.stringify(schema, null, 2));
+    console.log();
+  }
+
+  validateSchema(schema);
+  console.log(`✅ Found ${schema.length} endpoint(s)\n`);
+
+  return {
+    schema,
+    sources: pages.map(page => ({ url: page.source, pageVersion: page.version })),
+  };
+}
+
+/**
+ * Reloads the server whenever a watched source reports a change.
+ * Changes that arrive while a reload is running are coalesced into one more reload.
+ */
+function createReloader(
+  load: () => Promise<MockSchema>,
+  server: MockServerHandle,
+): (location: string) => void {
+  let reloading = false;
+  let pending = false;
+
+  const run = async (): Promise<void> => {
+    reloading = true;
+    try {
+      do {
+        pending = false;
+        const schema = await load();
+        server.reload(schema);
+      } while (pending);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`❌ Reload failed, keeping the previous endpoints: ${message}\n`);
+    } finally {
+      reloading = false;
+    }
+  };
+
+  return (location: string) => {
+    console.log(`\n👀 Change detected in ${location}`);
+    if (reloading) {
+      pending = true;
+      return;
+    }
+    void run();
+  };
+}
+
+function parseWatchInterval(value: string): number {
+  const seconds = parseFloat(value);
+  if (isNaN(seconds) || seconds <= 0) {
+    console.error("❌ Invalid watch interval. Must be a positive number of seconds.");
+    process.exit(1);
+  }
+  return seconds * 1000;
+}
+
+/**
+ * Validates --port / --delay, exiting with a message on bad input
+ */
+function parseServerOptions(options: { port: string; delay: string }): { port: number; delay: number } {
+  const port: number = parseInt(options.port, 10);
+  const delay: number = parseInt(options.delay, 10);
+
+  if (isNaN(port) || port < 1 || port > 65535) {
+    console.error("❌ Invalid port number. Must be between 1 and 65535.");
+    process.exit(1);
+  }
+
+  if (isNaN(delay) || delay < 0) {
+    console.error(
+      "❌ Invalid delay. Must be a non-negative number in milliseconds."
+    );
+    process.exit(1);
+  }
+
+  return { port, delay };
+}
+
+function logFallback(fallbackUrl: string, hydratesDuringParse: boolean): void {
+  console.log(`🔀 Fallback URL: ${fallbackUrl}`);
+  if (hydratesDuringParse) {
+    console.log("   Truncated doc responses may be hydrated from this URL during parsing");
+  }
+  console.log("   Unmatched requests will also be proxied to this URL\n");
+}
+
+function handleCommandError(error: unknown): never {
+  if (error instanceof Error) {
+    console.error(`\n❌ Error: ${error.message}\n`);
+  } else {
+    console.error("\n❌ An unexpected error occurred\n");
+  }
+  process.exit(1);
+}
+
 const program = new Command();
 
-program
-  .name("mock-mock")
-  .description(banner)
-  .version(packageJson.version)
-  .requiredOption(
-    "-u, --url <url>",
-    "Confluence page URL containing API definitions"
-  )
-  .option("-p, --port <port>", "Port for mock server", "4000")
-  .option(
-    "-f, --fallback <url>",
-    "Fallback base URL to proxy requests not found in the ERD"
-  )
-  .option(
-    "--delay <ms>",
-    "Response delay in milliseconds to simulate real API latency",
-    "0"
-  )
-  .option(
-    "-e, --email <email>",
-    "Confluence email (overrides CONFLUENCE_EMAIL env var)"
-  )
+addSourceOptions(
+  program
+    .name("mock-mock")
+    .description(banner)
+    .version(packageJson.version)
+    // Keep root options from swallowing the same flags on subcommands
+    .enablePositionalOptions()
+)
+
+addServerOptions(program)
+  .action(async (options) => {
+    try {
+      const { port, delay } = parseServerOptions(options);
+      const fallbackUrl: string | undefined = options.fallback;
+      const watchIntervalMs = parseWatchInterval(options.watchInterval);
+
+      console.log("🚀 MockMock CLI\n");
+
+      const { schema } = await loadSchema(options);
+
+      // Step 3: Start mock server
+      if (fallbackUrl) {
+        logFallback(fallbackUrl, true);
+      }
+      const server = startMockServer(schema, port, fallbackUrl, delay, toServerOptions(options));
+
+      if (options.watch) {
+        const urls: string[] = options.url ?? [];
+        const targets: WatchTarget[] = [
+          ...urls.map((url): WatchTarget => ({
+            location: url,
+            kind: resolveSourceFormat(url, options.format) === "openapi" ? "spec" : "page",
+          })),
+          ...(options.tree ?? []).map((tree: string): WatchTarget => ({
+            location: tree,
+            kind: "tree",
+            baseUrl: urls[0],
+          })),
+        ];
+        const reload = createReloader(async () => (await loadSchema(options)).schema, server);
+        watchSources(targets, { intervalMs: watchIntervalMs }, reload);
+        console.log(`👀 Watching ${targets.length} source(s) for changes\n`);
+      }
+    } catch (error) {
+      handleCommandError(error);
+    }
+  });
+
+addSourceOptions(
+  program
+    .command("export-openapi")
+    .description("Export the parsed API definitions as an OpenAPI 3.0 document")
+)
   .option(
-    "-t, --token <token>",
-    "Confluence API token (overrides CONFLUENCE_API_TOKEN env var)"
+    "-o, --output <file>",
+    "Output file (.json, .yaml or .yml)",
+    "openapi.json"
   )
-  .option("-d, --debug", "Enable debug mode (saves HTML to debug.html)")
+  .option("--title <title>", "API title written to info.title", "MockMock API")
+  .option("--api-version <version>", "API version written to info.version", "1.0.0")
+  .option("--server <url>", "Server URL written to the servers list")
   .action(async (options) => {
     try {
-      if (options.email) process.env.CONFLUENCE_EMAIL = options.email;
-      if (options.token) process.env.CONFLUENCE_API_TOKEN = options.token;
+      console.log("🚀 MockMock CLI\n");
+
+      const { schema } = await loadSchema(options);
+      const document = exportToOpenAPI(schema, {
+        title: options.title,
+        version: options.apiVersion,
+        serverUrl: options.server,
+      });
+
+      const output: string = options.output;
+      const content = /\.ya?ml$/i.test(output)
+        ? stringifyYAML(document)
+        : JSON.stringify(document, null, 2) + "\n";
+      writeFileSync(output, content);
 
-      const url: string = options.url;
-      const port: number = parseInt(options.port, 10);
-      const delay: number = parseInt(options.delay, 10);
+      console.log(`📝 OpenAPI document written to ${output}`);
+      const operationCount = Object.values(document.paths)
+        .reduce((count, pathItem) => count + Object.keys(pathItem).length, 0);
+      console.log(`   ${Object.keys(document.paths).length} path(s), ${operationCount} operation(s)\n`);
+    } catch (error) {
+      handleCommandError(error);
+    }
+  });
+
+addSourceOptions(
+  program
+    .command("compile")
+    .description("Parse the sources once and write a schema snapshot that can be served offline")
+)
+  .option("-o, --output <file>", "Snapshot file to write", "api.mock.json")
+  .action(async (options) => {
+    try {
+      console.log("🚀 MockMock CLI\n");
+
+      const { schema, sources } = await loadSchema(options);
+      const snapshot = createSnapshot(schema, sources, `${packageJson.name}@${packageJson.version}`);
+      writeSnapshot(options.output, snapshot);
+
+      console.log(`📦 Snapshot written to ${options.output}`);
+      console.log(`   Serve it offline with: mock-mock serve ${options.output}\n`);
+    } catch (error) {
+      handleCommandError(error);
+    }
+  });
+
+addServerOptions(
+  program
+    .command("serve <file>")
+    .description("Start the mock server from a snapshot written by \"compile\" (no Confluence access needed)")
+)
+  .option(
+    "-f, --fallback <url>",
+    "Fallback base URL to proxy requests not found in the snapshot"
+  )
+  .action((file: string, options) => {
+    try {
+      const { port, delay } = parseServerOptions(options);
       const fallbackUrl: string | undefined = options.fallback;
+      const watchIntervalMs = parseWatchInterval(options.watchInterval);
 
-      if (isNaN(port) || port < 1 || port > 65535) {
-        console.error("❌ Invalid port number. Must be between 1 and 65535.");
-        process.exit(1);
+      console.log("🚀 MockMock CLI\n");
+      console.log(`📦 Loading snapshot: ${file}`);
+
+      const snapshot = readSnapshot(file);
+      for (const source of snapshot.metadata?.sources ?? []) {
+        const version = source.pageVersion !== undefined ? ` (version ${source.pageVersion})` : "";
+        console.log(`   • ${source.url}${version}`);
+      }
+      if (snapshot.metadata?.generatedAt) {
+        console.log(`   Compiled at ${snapshot.metadata.generatedAt}`);
       }
 
-      if (isNaN(delay) || delay < 0) {
-        console.error(
-          "❌ Invalid delay. Must be a non-negative number in milliseconds."
-        );
-        process.exit(1);
+      validateSchema(snapshot.schema);
+      console.log(`✅ Found ${snapshot.schema.length} endpoint(s)\n`);
+
+      if (fallbackUrl) {
+        logFallback(fallbackUrl, false);
+      }
+      const server = startMockServer(snapshot.schema, port, fallbackUrl, delay, toServerOptions(options));
+
+      if (options.watch) {
+        const reload = createReloader(async () => {
+          const next = readSnapshot(file);
+          validateSchema(next.schema);
+          return next.schema;
+        }, server);
+        watchSources([{ location: file, kind: "spec" }], { intervalMs: watchIntervalMs }, reload);
+        console.log(`👀 Watching ${file} for changes\n`);
+      }
+    } catch (error) {
+      handleCommandError(error);
+    }
+  });
+
+addSourceOptions(
+  program
+    .command("verify")
+    .description("Call documented read-only endpoints on the real backend and diff responses against the docs")
+)
+  .option("--target <url>", "Backend base URL to verify against (defaults to --fallback)")
+  .option("-H, --header <header>", "Request header sent to the backend, e.g. \"Authorization: Bearer x\" (repeatable)", collect)
+  .option("--param <name=value>", "Value for a {param} path segment, e.g. id=1 (repeatable)", collect)
+  .option("--json <file>", "Write the report as JSON")
+  .option("--junit <file>", "Write the report as JUnit XML")
+  .action(async (options) => {
+    try {
+      const target: string | undefined = options.target ?? options.fallback;
+      if (!target) {
+        throw new Error("Provide the backend to verify against with --target or --fallback.");
       }
 
       console.log("🚀 MockMock CLI\n");
-      console.log(`📄 Fetching Confluence page: ${url}`);
 
-      // Step 1: Fetch HTML from Confluence
-      const html = await fetchConfluencePage(url);
-      console.log("✅ Page fetched successfully\n");
+      const { schema } = await loadSchema(options);
+      const report = await verifyContracts(schema, {
+        baseUrl: target,
+        headers: parsePairs(options.header, ":"),
+        params: parsePairs(options.param, "="),
+      });
+
+      printReport(report);
 
-      // Debug mode: save HTML to file
-      if (options.debug) {
-        writeFileSync("debug.html", html);
-        console.log("🐛 Debug: HTML saved to debug.html\n");
+      if (options.json) {
+        writeFileSync(options.json, toJSONReport(report));
+        console.log(`📝 JSON report written to ${options.json}`);
+      }
+      if (options.junit) {
+        writeFileSync(options.junit, toJUnitReport(report));
+        console.log(`📝 JUnit report written to ${options.junit}`);
       }
 
-      // Step 2: Parse endpoints
-      console.log("🔍 Parsing API endpoints...");
-      const schema = await parseERDFromHTML(html, { fallbackBaseUrl: fallbackUrl });
+      // Non-zero exit so CI pipelines fail on drift
+      if (report.summary.failed > 0 || report.summary.error > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      handleCommandError(error);
+    }
+  });
+
+program
+  .command("promote <dir>")
+  .description("Turn recordings saved with --record into a schema snapshot")
+  .option("-o, --output <file>", "Snapshot file to write (defaults to --into, or recorded.mock.json)")
+  .option("--into <file>", "Add the recorded endpoints to this snapshot; documented endpoints win")
+  .action((dir: string, options) => {
+    try {
+      console.log("🚀 MockMock CLI\n");
 
-      if (options.debug && schema.length > 0) {
-        console.log("🐛 Debug: Parsed endpoints:");
-        console.log(JSON.stringify(schema, null, 2));
-        console.log();
+      const library = RecordingLibrary.load(dir);
+      const recorded = recordingsToSchema(library.list());
+      console.log(`📼 ${library.size} recording(s) in ${dir} → ${recorded.length} endpoint(s)`);
+      if (recorded.length === 0) {
+        throw new Error(`No JSON recordings found in ${dir}.\n   Record some with: mock-mock serve <file> --fallback <url> --record ${dir}`);
       }
 
-      validateSchema(schema);
-      console.log(`✅ Found ${schema.length} endpoint(s)\n`);
+      const base = options.into ? readSnapshot(options.into) : null;
+      const { schema, duplicates } = mergeSchemas([
+        ...(base ? [{ source: options.into as string, schema: base.schema }] : []),
+        { source: dir, schema: recorded },
+      ]);
 
-      // Step 3: Start mock server
-      if (fallbackUrl) {
-        console.log(`🔀 Fallback URL: ${fallbackUrl}`);
-        console.log("   Truncated doc responses may be hydrated from this URL during parsing");
-        console.log("   Unmatched requests will also be proxied to this URL\n");
+      const added = recorded.length - duplicates.length;
+      for (const endpoint of recorded) {
+        const documented = duplicates.some(d => d.method === endpoint.method && d.path === endpoint.path);
+        console.log(`   ${documented ? "=" : "+"} ${endpoint.method.padEnd(6)} ${endpoint.path}`);
       }
-      startMockServer(schema, port, fallbackUrl, delay);
-    } catch (error) {
-      if (error instanceof Error) {
-        console.error(`\n❌ Error: ${error.message}\n`);
-      } else {
-        console.error("\n❌ An unexpected error occurred\n");
+      if (duplicates.length > 0) {
+        console.log(`   (${duplicates.length} already documented, kept as documented)`);
       }
-      process.exit(1);
+
+      const output: string = options.output ?? options.into ?? "recorded.mock.json";
+      const sources = [...(base?.metadata?.sources ?? []), { url: dir }];
+      writeSnapshot(output, createSnapshot(schema, sources, `${packageJson.name}@${packageJson.version}`));
+      console.log(`\n📦 ${added} endpoint(s) promoted into ${output}`);
+      console.log(`   Serve it with: mock-mock serve ${output}\n`);
+    } catch (error) {
+      handleCommandError(error);
     }
   });
 
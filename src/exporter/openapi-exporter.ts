@@ -0,0 +1,240 @@
+import { STATUS_CODES } from 'http';
+import { EndpointAuth, MockEndpoint, MockParam, MockSchema } from '../parser/schema-types';
+
+/**
+ * Converts a MockSchema back into an OpenAPI 3.0 document so it can be
+ * loaded into Postman and other contract tools.
+ */
+
+export interface OpenAPIExportOptions {
+  title?: string;
+  version?: string;
+  serverUrl?: string;
+}
+
+export interface JSONSchema {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  format?: string;
+  nullable?: boolean;
+  properties?: Record<string, JSONSchema>;
+  items?: JSONSchema;
+}
+
+export interface OpenAPIDocument {
+  openapi: string;
+  info: { title: string; version: string };
+  servers?: Array<{ url: string }>;
+  paths: Record<string, Record<string, unknown>>;
+  components?: { securitySchemes: Record<string, unknown> };
+}
+
+export function exportToOpenAPI(
+  schema: MockSchema,
+  options: OpenAPIExportOptions = {},
+): OpenAPIDocument {
+  const paths: OpenAPIDocument['paths'] = {};
+  const operationIds = new Set<string>();
+  const securitySchemes: Record<string, unknown> = {};
+
+  for (const endpoint of schema) {
+    const { path, params } = toOpenAPIPath(endpoint.path);
+    const method = endpoint.method.toLowerCase();
+    const pathItem = paths[path] ?? (paths[path] = {});
+
+    // OpenAPI allows a single operation per method + path; the first one wins
+    if (pathItem[method]) continue;
+
+    pathItem[method] = buildOperation(endpoint, params, uniqueOperationId(endpoint, operationIds));
+    if (endpoint.auth) {
+      securitySchemes[securitySchemeName(endpoint.auth)] = securityScheme(endpoint.auth);
+    }
+  }
+
+  const document: OpenAPIDocument = {
+    openapi: '3.0.3',
+    info: {
+      title: options.title ?? 'MockMock API',
+      version: options.version ?? '1.0.0',
+    },
+    paths,
+  };
+
+  if (options.serverUrl) {
+    document.servers = [{ url: options.serverUrl }];
+  }
+
+  if (Object.keys(securitySchemes).length > 0) {
+    document.components = { securitySchemes };
+  }
+
+  return document;
+}
+
+/**
+ * Infers a JSON Schema from a documented template value
+ */
+export function inferJSONSchema(value: unknown): JSONSchema {
+  if (value === null || value === undefined) {
+    return { nullable: true };
+  }
+
+  if (Array.isArray(value)) {
+    return {
+      type: 'array',
+      items: value.length > 0 ? inferJSONSchema(value[0]) : {},
+    };
+  }
+
+  if (typeof value === 'object') {
+    const properties: Record<string, JSONSchema> = {};
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      properties[key] = inferJSONSchema(child);
+    }
+    return { type: 'object', properties };
+  }
+
+  if (typeof value === 'number') {
+    return { type: Number.isInteger(value) ? 'integer' : 'number' };
+  }
+
+  if (typeof value === 'boolean') {
+    return { type: 'boolean' };
+  }
+
+  const format = detectStringFormat(String(value));
+  return format ? { type: 'string', format } : { type: 'string' };
+}
+
+function buildOperation(
+  endpoint: MockEndpoint,
+  params: string[],
+  operationId: string,
+): Record<string, unknown> {
+  const status = endpoint.status ?? (endpoint.method === 'POST' ? 201 : 200);
+  const operation: Record<string, unknown> = {
+    operationId,
+    summary: `${endpoint.method} ${endpoint.path}`,
+  };
+
+  const documentedPath = new Map((endpoint.pathParams ?? []).map(p => [p.name, p]));
+  const parameters = [
+    ...params.map(name => parameterObject(documentedPath.get(name) ?? { name, type: 'string' }, 'path')),
+    ...(endpoint.queryParams ?? []).map(param => parameterObject(param, 'query')),
+    ...(endpoint.headers ?? []).map(param => parameterObject(param, 'header')),
+  ];
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  if (endpoint.auth) {
+    operation.security = [{ [securitySchemeName(endpoint.auth)]: [] }];
+  }
+
+  if (endpoint.request !== undefined && endpoint.request !== null) {
+    operation.requestBody = {
+      required: true,
+      content: jsonContent(endpoint.request),
+    };
+  }
+
+  const response: Record<string, unknown> = { description: 'Successful response' };
+  if (status !== 204) {
+    response.content = jsonContent(endpoint.response);
+  }
+  const responses: Record<string, unknown> = { [String(status)]: response };
+  for (const alternative of endpoint.responses ?? []) {
+    responses[String(alternative.status)] = {
+      description: alternative.description ?? STATUS_CODES[alternative.status] ?? 'Response',
+      content: jsonContent(alternative.response),
+    };
+  }
+  operation.responses = responses;
+
+  return operation;
+}
+
+function parameterObject(param: MockParam, location: 'path' | 'query' | 'header'): Record<string, unknown> {
+  return {
+    name: param.name,
+    in: location,
+    required: location === 'path' || !!param.required,
+    ...(param.description && { description: param.description }),
+    schema: {
+      type: param.type,
+      ...(param.enum && { enum: param.enum }),
+      ...(param.default !== undefined && { default: param.default }),
+    },
+    ...(param.example !== undefined && { example: param.example }),
+  };
+}
+
+/** bearerAuth, basicAuth, or the API key header name */
+function securitySchemeName(auth: EndpointAuth): string {
+  return auth.scheme === 'apiKey' ? auth.header : `${auth.scheme}Auth`;
+}
+
+function securityScheme(auth: EndpointAuth): Record<string, unknown> {
+  if (auth.scheme === 'apiKey') {
+    return { type: 'apiKey', in: 'header', name: auth.header };
+  }
+  return auth.scheme === 'bearer'
+    ? { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+    : { type: 'http', scheme: 'basic' };
+}
+
+function jsonContent(template: unknown): Record<string, unknown> {
+  return {
+    'application/json': {
+      schema: inferJSONSchema(template),
+      example: template,
+    },
+  };
+}
+
+/**
+ * Rewrites /users/:id and /users/{id} to /users/{id} and collects param names
+ */
+function toOpenAPIPath(path: string): { path: string; params: string[] } {
+  const params: string[] = [];
+  const openApiPath = path
+    .split('/')
+    .map(segment => {
+      const match = segment.match(/^:(.+)$/) ?? segment.match(/^\{([^}]+)\}$/);
+      if (!match) return segment;
+      params.push(match[1]);
+      return `{${match[1]}}`;
+    })
+    .join('/');
+  return { path: openApiPath || '/', params };
+}
+
+function uniqueOperationId(endpoint: MockEndpoint, used: Set<string>): string {
+  const words = endpoint.path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => {
+      const param = segment.match(/^(?::|\{)([^}]+)\}?$/);
+      return param ? `By ${param[1]}` : segment;
+    })
+    .join(' ')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1));
+
+  const base = `${endpoint.method.toLowerCase()}${words.join('')}`;
+  let candidate = base;
+  for (let i = 2; used.has(candidate); i++) {
+    candidate = `${base}${i}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+function detectStringFormat(value: string): string | undefined {
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) return 'date-time';
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return 'date';
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) return 'email';
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) return 'uuid';
+  if (/^https?:\/\//i.test(value)) return 'uri';
+  return undefined;
+}
@@ -1,4 +1,4 @@
-import axios, { AxiosRequestConfig } from 'axios';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
 import { readFileSync } from 'fs';
 
 /**
@@ -22,28 +22,64 @@ function extractBaseUrl(url: string): string | null {
   }
 }
 
+/**
+ * Converts a file:// URL (or plain filesystem path) into a filesystem path
+ */
+export function toLocalPath(url: string): string {
+  let filePath = url.replace('file://', '');
+
+  // Handle Windows paths: file:///c:/path or file:///c|/path
+  if (filePath.startsWith('/') && filePath.match(/^\/[a-zA-Z][:|\|]/)) {
+    filePath = filePath.substring(1).replace('|', ':');
+  }
+
+  return filePath;
+}
+
+/**
+ * Reads a local file given a file:// URL or a plain filesystem path
+ */
+export function readLocalFile(url: string): string {
+  try {
+    return readFileSync(toLocalPath(url), 'utf-8');
+  } catch (error) {
+    throw new Error(`Failed to read local file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Page HTML plus the Confluence version number when the REST API provided one
+ */
+export interface ConfluencePageContent {
+  html: string;
+  version?: number;
+}
+
+export interface FetchOptions {
+  /** Skip progress messages such as "Reading local file", for the library loader */
+  quiet?: boolean;
+}
+
 /**
  * Fetches HTML content from a Confluence page
  * Supports optional Basic Auth via environment variables
  * Automatically uses Confluence REST API for Atlassian Cloud URLs
  */
 export async function fetchConfluencePage(url: string): Promise<string> {
+  return (await fetchConfluencePageContent(url)).html;
+}
+
+/**
+ * Same as fetchConfluencePage, but also returns the page version
+ * (only available when the page is loaded through the REST API)
+ */
+export async function fetchConfluencePageContent(url: string, options: FetchOptions = {}): Promise<ConfluencePageContent> {
+  const log = options.quiet ? () => undefined : (message: string) => console.log(message);
   try {
     // Handle local file URLs
     if (url.startsWith('file://')) {
-      console.log('📁 Reading local file\n');
-      try {
-        let filePath = url.replace('file://', '');
-        
-        // Handle Windows paths: file:///c:/path or file:///c|/path
-        if (filePath.startsWith('/') && filePath.match(/^\/[a-zA-Z][:|\|]/)) {
-          filePath = filePath.substring(1).replace('|', ':');
-        }
-        
-        return readFileSync(filePath, 'utf-8');
-      } catch (error) {
-        throw new Error(`Failed to read local file: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
+      log('📁 Reading local file\n');
+      return { html: readLocalFile(url) };
     }
 
     const email = process.env.CONFLUENCE_EMAIL;
@@ -56,7 +92,7 @@ export async function fetchConfluencePage(url: string): Promise<string> {
 
     // For Atlassian Cloud with credentials, use the REST API
     if (isAtlassianCloud && email && token && pageId && baseUrl) {
-      console.log('🔐 Using Confluence REST API with authentication\n');
+      log('🔐 Using Confluence REST API with authentication\n');
       return await fetchViaRestApi(baseUrl, pageId, email, token);
     }
 
@@ -73,8 +109,8 @@ export async function fetchConfluencePage(url: string): Promise<string> {
         password: token,
       };
     } else if (isAtlassianCloud) {
-      console.log('⚠️  No authentication credentials found');
-      console.log('   Set CONFLUENCE_EMAIL and CONFLUENCE_API_TOKEN for private pages\n');
+      log('⚠️  No authentication credentials found');
+      log('   Set CONFLUENCE_EMAIL and CONFLUENCE_API_TOKEN for private pages\n');
     }
 
     const response = await axios.get(url, config);
@@ -91,7 +127,7 @@ export async function fetchConfluencePage(url: string): Promise<string> {
       );
     }
 
-    return html;
+    return { html };
   } catch (error) {
     if (axios.isAxiosError(error)) {
       if (error.response?.status === 401) {
@@ -117,6 +153,31 @@ export async function fetchConfluencePage(url: string): Promise<string> {
   }
 }
 
+/**
+ * Returns the current version number of a Confluence page, or null when the
+ * page cannot be reached through the REST API (public pages, missing credentials).
+ */
+export async function fetchConfluencePageVersion(url: string): Promise<number | null> {
+  const email = process.env.CONFLUENCE_EMAIL;
+  const token = process.env.CONFLUENCE_API_TOKEN;
+  const pageId = extractPageId(url);
+  const baseUrl = extractBaseUrl(url);
+
+  if (!url.includes('.atlassian.net') || !email || !token || !pageId || !baseUrl) {
+    return null;
+  }
+
+  try {
+    const response = await axios.get<ContentResponse>(
+      `${baseUrl}/wiki/rest/api/content/${pageId}?expand=version`,
+      restApiConfig(email, token),
+    );
+    return response.data.version?.number ?? null;
+  } catch (error) {
+    throw toRestApiError(error);
+  }
+}
+
 /**
  * Fetches a live endpoint payload from the fallback API during parsing.
  * This is intentionally limited to safe read-only methods.
@@ -125,6 +186,7 @@ export async function fetchFallbackEndpointResponse(
   baseUrl: string,
   path: string,
   method: string,
+  headers: Record<string, string> = {},
 ): Promise<unknown> {
   const normalizedMethod = method.toUpperCase();
   if (!['GET', 'HEAD'].includes(normalizedMethod)) {
@@ -142,6 +204,7 @@ export async function fetchFallbackEndpointResponse(
     url: targetUrl,
     headers: {
       Accept: 'application/json',
+      ...headers,
     },
     validateStatus: () => true,
   });
@@ -155,6 +218,131 @@ export async function fetchFallbackEndpointResponse(
   return response.data;
 }
 
+/**
+ * The fields read from a Confluence REST API content response
+ */
+interface ContentResponse {
+  id: string;
+  title?: string;
+  body?: { storage?: { value?: string } };
+  version?: { number?: number };
+}
+
+/**
+ * One batch of child pages; "next" is relative to /wiki
+ */
+interface ChildPagesResponse {
+  results?: ContentResponse[];
+  _links?: { next?: string };
+}
+
+/**
+ * A single page loaded from a Confluence page tree
+ */
+export interface ConfluencePage {
+  id: string;
+  title: string;
+  html: string;
+  version?: number;
+}
+
+/**
+ * Fetches a root page and all of its descendants via the Confluence REST API.
+ * Accepts either a page URL or a bare page ID; a bare ID is resolved against
+ * `baseUrl` (or the CONFLUENCE_BASE_URL env var).
+ */
+export async function fetchConfluencePageTree(
+  pageIdOrUrl: string,
+  baseUrl?: string,
+): Promise<ConfluencePage[]> {
+  const email = process.env.CONFLUENCE_EMAIL;
+  const token = process.env.CONFLUENCE_API_TOKEN;
+
+  const rootId = /^\d+$/.test(pageIdOrUrl) ? pageIdOrUrl : extractPageId(pageIdOrUrl);
+  const resolvedBaseUrl = /^\d+$/.test(pageIdOrUrl)
+    ? (baseUrl ? extractBaseUrl(baseUrl) : null) ?? extractBaseUrl(process.env.CONFLUENCE_BASE_URL ?? '')
+    : extractBaseUrl(pageIdOrUrl);
+
+  if (!rootId) {
+    throw new Error(
+      `Could not determine page ID from "${pageIdOrUrl}".\n` +
+      '   Pass a numeric page ID or a URL containing /pages/[PAGE_ID]/'
+    );
+  }
+  if (!resolvedBaseUrl) {
+    throw new Error(
+      `Could not determine the Confluence base URL for page ${rootId}.\n` +
+      '   Pass a full page URL, combine --tree with --url, or set CONFLUENCE_BASE_URL.'
+    );
+  }
+  if (!email || !token) {
+    throw new Error(
+      'Walking a page tree requires the Confluence REST API.\n' +
+      '   Set CONFLUENCE_EMAIL and CONFLUENCE_API_TOKEN environment variables.'
+    );
+  }
+
+  const config = restApiConfig(email, token);
+  const pages: ConfluencePage[] = [];
+  const visited = new Set<string>();
+  const queue: string[] = [rootId];
+
+  try {
+    const rootResponse = await axios.get<ContentResponse>(
+      `${resolvedBaseUrl}/wiki/rest/api/content/${rootId}?expand=body.storage,version`,
+      config,
+    );
+    pages.push(toConfluencePage(rootResponse.data));
+    visited.add(rootId);
+
+    while (queue.length > 0) {
+      const parentId = queue.shift() as string;
+      let nextUrl: string | null =
+        `${resolvedBaseUrl}/wiki/rest/api/content/${parentId}/child/page?expand=body.storage,version&limit=50`;
+
+      while (nextUrl) {
+        const response: AxiosResponse<ChildPagesResponse> = await axios.get(nextUrl, config);
+        const data = response.data;
+
+        for (const child of data.results ?? []) {
+          if (visited.has(child.id)) continue;
+          visited.add(child.id);
+          pages.push(toConfluencePage(child));
+          queue.push(child.id);
+        }
+
+        // Paginated results expose a relative "next" link
+        nextUrl = data._links?.next ? `${resolvedBaseUrl}/wiki${data._links.next}` : null;
+      }
+    }
+  } catch (error) {
+    throw toRestApiError(error);
+  }
+
+  return pages;
+}
+
+function toConfluencePage(pageData: ContentResponse): ConfluencePage {
+  return {
+    id: String(pageData.id),
+    title: pageData.title ?? String(pageData.id),
+    html: pageData.body?.storage?.value ?? '',
+    version: pageData.version?.number,
+  };
+}
+
+function restApiConfig(email: string, token: string): AxiosRequestConfig {
+  return {
+    headers: {
+      'Accept': 'application/json',
+    },
+    auth: {
+      username: email,
+      password: token,
+    },
+  };
+}
+
 /**
  * Fetches page content via Confluence REST API
  */
@@ -163,58 +351,55 @@ async function fetchViaRestApi(
   pageId: string,
   email: string,
   token: string
-): Promise<string> {
+): Promise<ConfluencePageContent> {
   try {
     // Try v1 API first (more commonly used)
-    const apiUrl = `${baseUrl}/wiki/rest/api/content/${pageId}?expand=body.storage`;
-    
-    const config: AxiosRequestConfig = {
-      headers: {
-        'Accept': 'application/json',
-      },
-      auth: {
-        username: email,
-        password: token,
-      },
-    };
+    const apiUrl = `${baseUrl}/wiki/rest/api/content/${pageId}?expand=body.storage,version`;
 
-    const response = await axios.get(apiUrl, config);
+    const response = await axios.get<ContentResponse>(apiUrl, restApiConfig(email, token));
     
     // The API returns JSON with the page body in storage format (HTML)
     const pageData = response.data;
     
-    if (pageData.body && pageData.body.storage && pageData.body.storage.value) {
-      return pageData.body.storage.value;
+    if (pageData.body?.storage?.value) {
+      return { html: pageData.body.storage.value, version: pageData.version?.number };
     }
     
     throw new Error('Page body not found in API response');
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401) {
-        throw new Error(
-          'Authentication failed (401 Unauthorized).\n' +
-          '   Check your CONFLUENCE_EMAIL and CONFLUENCE_API_TOKEN credentials.\n' +
-          '   Make sure the API token is valid and not expired.'
-        );
-      }
-      if (error.response?.status === 403) {
-        throw new Error(
-          'Access forbidden (403). You don\'t have permission to view this page.\n' +
-          '   Ask your Confluence admin for access.'
-        );
-      }
-      if (error.response?.status === 404) {
-        throw new Error(
-          'Page not found (404). Check that the page ID is correct.\n' +
-          '   URL should contain /pages/[PAGE_ID]/'
-        );
-      }
-      throw new Error(
-        `Confluence API error: ${error.message}${
-          error.response?.status ? ` (Status: ${error.response.status})` : ''
-        }`
+    throw toRestApiError(error);
+  }
+}
+
+/**
+ * Converts REST API failures into actionable error messages
+ */
+function toRestApiError(error: unknown): unknown {
+  if (axios.isAxiosError(error)) {
+    if (error.response?.status === 401) {
+      return new Error(
+        'Authentication failed (401 Unauthorized).\n' +
+        '   Check your CONFLUENCE_EMAIL and CONFLUENCE_API_TOKEN credentials.\n' +
+        '   Make sure the API token is valid and not expired.'
       );
     }
-    throw error;
+    if (error.response?.status === 403) {
+      return new Error(
+        'Access forbidden (403). You don\'t have permission to view this page.\n' +
+        '   Ask your Confluence admin for access.'
+      );
+    }
+    if (error.response?.status === 404) {
+      return new Error(
+        'Page not found (404). Check that the page ID is correct.\n' +
+        '   URL should contain /pages/[PAGE_ID]/'
+      );
+    }
+    return new Error(
+      `Confluence API error: ${error.message}${
+        error.response?.status ? ` (Status: ${error.response.status})` : ''
+      }`
+    );
   }
+  return error;
 }
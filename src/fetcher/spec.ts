@@ -0,0 +1,34 @@
+import axios from 'axios';
+import { FetchOptions, readLocalFile } from './confluence';
+
+/**
+ * Fetches the raw text of an API specification document (OpenAPI/Swagger).
+ * Accepts file:// URLs, plain filesystem paths and http(s) URLs.
+ */
+export async function fetchSpecDocument(location: string, options: FetchOptions = {}): Promise<string> {
+  if (!/^https?:\/\//i.test(location)) {
+    if (!options.quiet) console.log('📁 Reading local spec file\n');
+    return readLocalFile(location);
+  }
+
+  try {
+    const response = await axios.get(location, {
+      headers: {
+        'Accept': 'application/json, application/yaml, text/yaml, text/plain',
+      },
+      // Keep the raw text so YAML and JSON go through the same parser
+      responseType: 'text',
+      transformResponse: [(data: string) => data],
+    });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      throw new Error(
+        `Failed to fetch spec document: ${error.message}${
+          error.response?.status ? ` (Status: ${error.response.status})` : ''
+        }`
+      );
+    }
+    throw error;
+  }
+}
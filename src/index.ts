@@ -0,0 +1,182 @@
+import { Server } from 'http';
+import { Application } from 'express';
+import { AddressInfo } from 'net';
+import { readFileSync } from 'fs';
+import { fetchConfluencePageContent, toLocalPath } from './fetcher/confluence';
+import { fetchSpecDocument } from './fetcher/spec';
+import { parseERDFromHTML, validateSchema } from './parser/erd-parser';
+import { parseOpenAPIDocument } from './parser/openapi-parser';
+import { mergeSchemas, SchemaSource } from './parser/schema-merge';
+import { MockSchema } from './parser/schema-types';
+import { SchemaDiff } from './parser/schema-diff';
+import { readSnapshot } from './parser/snapshot';
+import { createMockApp, MockServerOptions } from './server/mock-server';
+import { DataStore } from './server/data-store';
+import { Scenario } from './server/scenarios';
+import { JournalCriteria, JournalEntry, JournalVerification } from './server/journal';
+
+/**
+ * Library entry point, for running mock servers inside test suites:
+ *
+ *   const mock = await createMockServer({ source: 'api.mock.json', seed: 1 });
+ *   await fetch(`${mock.url}/api/orders`);
+ *   mock.setScenario({ method: 'GET', path: '/api/orders', type: 'error', status: 503 });
+ *   mock.requests({ method: 'POST', path: '/api/orders' });
+ *   await mock.close();
+ *
+ * Servers created here never read stdin, install signal handlers or exit the
+ * process, and share no state, so several can run side by side.
+ */
+
+export interface CreateMockServerOptions extends MockServerOptions {
+  /** Endpoints to serve; takes precedence over `source` */
+  schema?: MockSchema;
+  /**
+   * Snapshot written by `mock-mock compile`, Confluence page URL, file:// or
+   * local HTML page, or OpenAPI/Swagger document (.json, .yaml, .yml);
+   * several sources are merged as with repeated --url
+   */
+  source?: string | string[];
+  /** 0 (the default) picks a free port; see `MockServer.url` */
+  port?: number;
+  host?: string;
+  /** Response delay in ms */
+  delay?: number;
+  /** Base URL that unmatched requests are proxied to */
+  fallbackUrl?: string;
+}
+
+export interface MockServer {
+  /** Base URL, e.g. http://127.0.0.1:53121 */
+  url: string;
+  port: number;
+  /** The in-memory collections behind the documented endpoints */
+  store: DataStore;
+  /** Regenerates every collection and clears scenarios, the journal and delay/chaos changes */
+  reset(): void;
+  /** Swaps the served endpoints, keeping collections whose template did not change */
+  reload(schema: MockSchema): SchemaDiff;
+  setDelay(ms: number): void;
+  /** Replaces any scenario for the same method and path; throws when malformed */
+  setScenario(scenario: Scenario): Scenario;
+  /** Without arguments every scenario is cleared; returns false when none matched */
+  clearScenario(method?: string, path?: string): boolean;
+  /** Journaled requests matching the criteria, oldest first */
+  requests(criteria?: JournalCriteria): JournalEntry[];
+  /** Checks how often matching requests were made, as POST /_journal/verify does */
+  verify(expectation: JournalCriteria & JournalVerification['expected']): JournalVerification;
+  /** Stops listening, dropping open connections, and writes pending --data-file changes */
+  close(): Promise<void>;
+}
+
+const DEFAULT_HOST = '127.0.0.1';
+
+export async function createMockServer(options: CreateMockServerOptions = {}): Promise<MockServer> {
+  const { schema: givenSchema, source, port = 0, host = DEFAULT_HOST, delay = 0, fallbackUrl, ...serverOptions } = options;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error('port must be an integer between 0 and 65535');
+  }
+  if (typeof delay !== 'number' || delay < 0) {
+    throw new Error('delay must be a non-negative number (ms)');
+  }
+
+  const schema = givenSchema ?? await loadSources(source, fallbackUrl);
+  validateSchema(schema);
+
+  const mock = createMockApp(schema, fallbackUrl, delay, { quiet: true, ...serverOptions });
+  const server = await listen(mock.app, port, host);
+  const address = server.address() as AddressInfo;
+  const url = `http://${host.includes(':') ? `[${host}]` : host}:${address.port}`;
+  mock.logStartup(url);
+
+  const { controls } = mock;
+  return {
+    url,
+    port: address.port,
+    store: mock.store,
+    reset(): void {
+      mock.dataset.reset();
+      controls.scenarios.clear();
+      controls.journal.clear();
+      // Back to the startup state: still injecting faults when created with `chaos`
+      controls.chaos.reset(serverOptions.chaos, serverOptions.chaos !== undefined);
+      controls.delay = delay;
+    },
+    reload: nextSchema => mock.reload(nextSchema),
+    setDelay(ms: number): void {
+      if (typeof ms !== 'number' || ms < 0) throw new Error('delay must be a non-negative number (ms)');
+      controls.delay = ms;
+    },
+    setScenario: scenario => controls.scenarios.set(scenario),
+    clearScenario(method?: string, path?: string): boolean {
+      if (method !== undefined && path !== undefined) return controls.scenarios.remove(method, path);
+      const hadScenarios = controls.scenarios.list().length > 0;
+      controls.scenarios.clear();
+      return hadScenarios;
+    },
+    requests: criteria => controls.journal.find(criteria),
+    verify: expectation => controls.journal.verify(expectation),
+    close(): Promise<void> {
+      mock.flush();
+      return new Promise((resolve, reject) => {
+        server.close(error => (error ? reject(error) : resolve()));
+        // Slow and timeout scenarios would otherwise hold close() open
+        server.closeAllConnections?.();
+      });
+    },
+  };
+}
+
+function listen(app: Application, port: number, host: string): Promise<Server> {
+  return new Promise((resolve, reject) => {
+    const server = app.listen(port, host);
+    server.once('listening', () => resolve(server));
+    server.once('error', reject);
+  });
+}
+
+/**
+ * Loads and merges `source` entries, telling snapshots, OpenAPI documents
+ * and Confluence/HTML pages apart by content and extension
+ */
+async function loadSources(source: string | string[] | undefined, fallbackUrl?: string): Promise<MockSchema> {
+  const locations = source === undefined ? [] : Array.isArray(source) ? source : [source];
+  if (locations.length === 0) {
+    throw new Error('Provide a schema or at least one source');
+  }
+
+  const sources: SchemaSource[] = [];
+  for (const location of locations) {
+    sources.push({ source: location, schema: await loadSource(location, fallbackUrl) });
+  }
+  return mergeSchemas(sources).schema;
+}
+
+async function loadSource(location: string, fallbackUrl?: string): Promise<MockSchema> {
+  const isRemote = /^https?:\/\//i.test(location);
+  const pathname = location.split(/[?#]/)[0].toLowerCase();
+
+  if (!isRemote && pathname.endsWith('.json') && isSnapshot(toLocalPath(location))) {
+    return readSnapshot(toLocalPath(location)).schema;
+  }
+  if (/\.(json|ya?ml)$/.test(pathname)) {
+    return parseOpenAPIDocument(await fetchSpecDocument(location, { quiet: true }));
+  }
+  const { html } = await fetchConfluencePageContent(location, { quiet: true });
+  return parseERDFromHTML(html, { fallbackBaseUrl: fallbackUrl, quiet: true });
+}
+
+/** Snapshots carry a "schema" array; OpenAPI documents never do */
+function isSnapshot(file: string): boolean {
+  try {
+    return Array.isArray(JSON.parse(readFileSync(file, 'utf-8')).schema);
+  } catch {
+    return false;
+  }
+}
+
+export type { MockServerOptions } from './server/mock-server';
+export type { MockSchema, MockEndpoint } from './parser/schema-types';
+export type { Scenario, ScenarioType } from './server/scenarios';
+export type { JournalCriteria, JournalEntry, JournalVerification } from './server/journal';
+export type { DataStore } from './server/data-store';
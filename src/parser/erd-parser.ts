@@ -1,6 +1,19 @@
 import * as cheerio from 'cheerio';
 import { fetchFallbackEndpointResponse } from '../fetcher/confluence';
-import { MockEndpoint, MockSchema } from './schema-types';
+import { STATUS_CODES } from 'http';
+import { EndpointAuth, MockEndpoint, MockResponse, MockSchema } from './schema-types';
+import { collectStorageSnippets, isStorageFormat, loadStorageFormat } from './storage-format';
+import {
+  DocumentedParam,
+  extractAuthHeader,
+  mergeDocumentedParams,
+  parseAuthText,
+  parseHeaderCell,
+  parseParamCell,
+  parseParamTable,
+  pathParamsFromPath,
+  splitUrl,
+} from './param-parser';
 
 /**
  * Parses API endpoint definitions from Confluence HTML
@@ -8,6 +21,8 @@ import { MockEndpoint, MockSchema } from './schema-types';
  */
 export interface ParseERDOptions {
   fallbackBaseUrl?: string;
+  /** Skip the [DEBUG] table scan output; warnings are still printed */
+  quiet?: boolean;
 }
 
 interface ExtractedJSONSnippet {
@@ -17,24 +32,34 @@ interface ExtractedJSONSnippet {
   isTruncated: boolean;
 }
 
+/**
+ * Headings of documented alternative responses:
+ *   "Error Response (422):", "Response 404:", "404 Response", "422 Validation Error Response:"
+ * A code after "Status:" is the default status, not an alternative.
+ */
+const ALTERNATIVE_RESPONSE_HEADING =
+  /\bResponse[ \t]*(?:\([ \t]*([1-5]\d\d)[ \t]*\)|([1-5]\d\d)\b)[ \t]*:?|(?<!Status:[ \t]*)\b([1-5]\d\d)[ \t]+(?:[A-Za-z]+[ \t]+){0,3}?Response\b[ \t]*:?/gi;
+
 export async function parseERDFromHTML(
   html: string,
   options: ParseERDOptions = {},
 ): Promise<MockSchema> {
-  const $ = cheerio.load(html);
+  // REST API pages come in storage format, where code snippets are macros rather than <pre> blocks
+  const storageFormat = isStorageFormat(html);
+  const $ = storageFormat ? loadStorageFormat(html) : cheerio.load(html);
   let endpoints: MockSchema = [];
 
   // Strategy 1: Try parsing tables (common in Confluence ERD pages)
-  const tableEndpoints = await parseTableBasedEndpoints($, html, options);
+  const { endpoints: tableEndpoints, standaloneSnippets } = await parseTableBasedEndpoints($, html, options, storageFormat);
   if (tableEndpoints.length > 0) {
     endpoints.push(...tableEndpoints);
   }
 
   // Strategy 2: Try parsing code blocks (original format)
-  const codeBlocks = $('pre, code, div.code, div.codeContent').toArray();
-  for (const block of codeBlocks) {
-    const text = $(block).text().trim();
-    
+  const codeBlocks = storageFormat
+    ? standaloneSnippets
+    : $('pre, code, div.code, div.codeContent').toArray().map(block => $(block).text().trim());
+  for (const text of codeBlocks) {
     if (!text) continue;
 
     try {
@@ -67,7 +92,12 @@ async function parseEndpointFromText(
   }
 
   const method = methodPathMatch[1].toUpperCase() as MockEndpoint['method'];
-  const path = methodPathMatch[2];
+  const { path, queryParams } = splitUrl(methodPathMatch[2]);
+  const pathParams = pathParamsFromPath(path);
+
+  // Error responses come out first so "404 Response:" is not read as the default response
+  const alternatives = extractAlternativeResponses(text);
+  text = alternatives.remainingText;
 
   // Extract Request JSON
   let request: unknown = undefined;
@@ -94,12 +124,23 @@ async function parseEndpointFromText(
     status = parseInt(statusMatch[1], 10);
   }
 
+  // "Response (200):" documents the default response in the same style as the errors
+  const success = alternatives.responses.find(r => r.status >= 200 && r.status < 300);
+  if (!responseSnippet.raw && success) {
+    response = success.response;
+    status = status ?? success.status;
+    alternatives.responses = alternatives.responses.filter(r => r !== success);
+  }
+
   return {
     method,
     path,
     request,
     response,
     status,
+    ...(alternatives.responses.length > 0 && { responses: alternatives.responses }),
+    ...(pathParams.length > 0 && { pathParams }),
+    ...(queryParams.length > 0 && { queryParams }),
   };
 }
 
@@ -109,19 +150,23 @@ async function parseEndpointFromText(
  */
 async function extractFromAssociatedBlocks(
   endpoint: Partial<MockEndpoint>,
-  blocks: Array<{ position: number; content: string }>,
+  blocks: string[],
   options: ParseERDOptions,
-): Promise<{ request?: unknown; response?: unknown }> {
-  const result: { request?: unknown; response?: unknown } = {};
+): Promise<{ request?: unknown; response?: unknown; responses: MockResponse[] }> {
+  const result: { request?: unknown; response?: unknown; responses: MockResponse[] } = { responses: [] };
 
   for (const block of blocks) {
-    const content = block.content;
+    const alternatives = extractAlternativeResponses(block);
+    result.responses = mergeResponses(result.responses, alternatives.responses);
+    const content = alternatives.remainingText;
 
     if (!result.response) {
-      if (content.includes('Response Structure:') || content.includes('Response Structure')) {
+      // "Response:" comes from storage-format labels such as a "Response" expand title
+      if (content.includes('Response Structure') || content.includes('Response:')) {
         const snippet = extractStructuredJSONFromKeywords(content, [
           'Response Structure:',
           'Response Structure',
+          'Response:',
         ]);
 
         if (snippet.raw && endpoint.method && endpoint.path) {
@@ -167,56 +212,70 @@ async function extractFromAssociatedBlocks(
 
 /**
  * Parses endpoints from Confluence table format.
- * Uses positional association to correctly map CDATA code snippets
- * to their owning table, even when endpoints have multiple CDATA blocks.
+ * In storage format, code macros belong to the endpoint table of their
+ * heading section (see storage-format.ts). Other pages fall back to
+ * positional association: CDATA blocks between a table and the next one.
+ * Code snippets left over in storage format are returned for Strategy 2.
  */
 async function parseTableBasedEndpoints(
   $: cheerio.CheerioAPI,
   html: string,
   options: ParseERDOptions,
-): Promise<MockSchema> {
+  storageFormat: boolean,
+): Promise<{ endpoints: MockSchema; standaloneSnippets: string[] }> {
   const endpoints: MockSchema = [];
-
-  // Find positions of every <table in the raw HTML
-  const tablePositions: number[] = [];
-  const tableRegex = /<table[\s>]/gi;
-  let tMatch;
-  while ((tMatch = tableRegex.exec(html)) !== null) {
-    tablePositions.push(tMatch.index);
-  }
-
-  // Find every CDATA block together with its position
-  const cdataBlocks: Array<{ position: number; content: string }> = [];
-  const cdataRegex = /<!\[CDATA\[([\s\S]*?)\]\]>/g;
-  let cMatch;
-  while ((cMatch = cdataRegex.exec(html)) !== null) {
-    cdataBlocks.push({ position: cMatch.index, content: cMatch[1] });
-  }
+  const log = options.quiet ? () => undefined : (message: string) => console.log(message);
 
   const tables = $('table').toArray();
-
-  console.log(`[DEBUG] Found ${tables.length} tables, ${cdataBlocks.length} CDATA blocks`);
+  const tableEndpoints = tables.map((table, i) => {
+    const endpoint = parseEndpointFromTable($, table, log);
+    log(`[DEBUG] Table ${i + 1}: ${endpoint ? `${endpoint.method} ${endpoint.path}` : 'No endpoint found'}`);
+    return endpoint;
+  });
+
+  // Parameter tables (nested in a Parameters row or next to the endpoint table) belong
+  // to the closest endpoint table before them, or the first one after
+  tables.forEach((table, i) => {
+    if (tableEndpoints[i]) return;
+    const params = parseParamTable($, table);
+    if (!params) return;
+    const owner = tableEndpoints.slice(0, i).reverse().find(Boolean) ?? tableEndpoints.slice(i + 1).find(Boolean);
+    if (owner) {
+      applyParams(owner, params);
+      log(`[DEBUG] Table ${i + 1}: ${params.length} parameter(s) for ${owner.method} ${owner.path}`);
+    }
+  });
+
+  let blocksForTable: (index: number) => string[];
+  let standaloneSnippets: string[] = [];
+
+  if (storageFormat) {
+    const snippets = collectStorageSnippets($, tables.filter((_, i) => tableEndpoints[i]));
+    blocksForTable = i => snippets.byTable.get(tables[i]) ?? [];
+    standaloneSnippets = snippets.standalone;
+    log(`[DEBUG] Found ${tables.length} tables, ${snippets.byTable.size} endpoint sections`);
+  } else {
+    const positional = positionalBlocks(html);
+    blocksForTable = positional.blocksForTable;
+    log(`[DEBUG] Found ${tables.length} tables, ${positional.count} CDATA blocks`);
+  }
 
   for (let i = 0; i < tables.length; i++) {
-    const table = tables[i];
-    const endpoint = parseEndpointFromTable($, table);
-
-    console.log(`[DEBUG] Table ${i + 1}: ${endpoint ? `${endpoint.method} ${endpoint.path}` : 'No endpoint found'}`);
+    const endpoint = tableEndpoints[i];
 
     if (endpoint) {
-      const thisTablePos = i < tablePositions.length ? tablePositions[i] : 0;
-      const nextTablePos = (i + 1 < tablePositions.length)
-        ? tablePositions[i + 1]
-        : html.length;
-
-      const associatedBlocks = cdataBlocks.filter(
-        b => b.position > thisTablePos && b.position < nextTablePos
-      );
+      const associatedBlocks = blocksForTable(i);
 
-      console.log(`[DEBUG]   Associated CDATA blocks: ${associatedBlocks.length}`);
+      log(`[DEBUG]   ${endpoint.method} ${endpoint.path}: ${associatedBlocks.length} associated code block(s)`);
 
       const snippet = await extractFromAssociatedBlocks(endpoint, associatedBlocks, options);
 
+      const success = snippet.responses.find(r => r.status >= 200 && r.status < 300);
+      if (!snippet.response && success) {
+        snippet.response = success.response;
+        endpoint.status = endpoint.status ?? success.status;
+      }
+
       endpoint.response = snippet.response || { message: 'Success', data: {} };
       endpoint.request = snippet.request;
 
@@ -224,21 +283,72 @@ async function parseTableBasedEndpoints(
         endpoint.status = endpoint.method === 'POST' ? 201 : 200;
       }
 
+      // Documented bodies win over codes that were only listed in the Status row
+      const responses = mergeResponses(snippet.responses, endpoint.responses ?? [])
+        .filter(r => r.status !== endpoint.status);
+      delete endpoint.responses;
+      if (responses.length > 0) {
+        endpoint.responses = responses;
+      }
+
       endpoints.push(endpoint as MockEndpoint);
     }
   }
 
-  console.log(`[DEBUG] Total endpoints parsed: ${endpoints.length}`);
+  log(`[DEBUG] Total endpoints parsed: ${endpoints.length}`);
 
-  return endpoints;
+  return { endpoints, standaloneSnippets };
+}
+
+/**
+ * CDATA blocks found by position in the raw HTML; table i owns the blocks
+ * between its <table and the next one.
+ */
+function positionalBlocks(html: string): { count: number; blocksForTable: (index: number) => string[] } {
+  // Find positions of every <table in the raw HTML
+  const tablePositions: number[] = [];
+  const tableRegex = /<table[\s>]/gi;
+  let tMatch;
+  while ((tMatch = tableRegex.exec(html)) !== null) {
+    tablePositions.push(tMatch.index);
+  }
+
+  // Find every CDATA block together with its position
+  const cdataBlocks: Array<{ position: number; content: string }> = [];
+  const cdataRegex = /<!\[CDATA\[([\s\S]*?)\]\]>/g;
+  let cMatch;
+  while ((cMatch = cdataRegex.exec(html)) !== null) {
+    cdataBlocks.push({ position: cMatch.index, content: cMatch[1] });
+  }
+
+  return {
+    count: cdataBlocks.length,
+    blocksForTable: i => {
+      const thisTablePos = i < tablePositions.length ? tablePositions[i] : 0;
+      const nextTablePos = (i + 1 < tablePositions.length)
+        ? tablePositions[i + 1]
+        : html.length;
+      return cdataBlocks
+        .filter(b => b.position > thisTablePos && b.position < nextTablePos)
+        .map(b => b.content);
+    },
+  };
 }
 
 /**
  * Parses a single endpoint from a table
  */
-function parseEndpointFromTable($: cheerio.CheerioAPI, table: any): Partial<MockEndpoint> | null {
-  const rows = $(table).find('tr').toArray();
+function parseEndpointFromTable(
+  $: cheerio.CheerioAPI,
+  table: any,
+  log: (message: string) => void,
+): Partial<MockEndpoint> | null {
+  // Rows of nested parameter tables are read separately
+  const rows = $(table).find('tr').toArray().filter(row => $(row).closest('table').is(table));
   const endpoint: Partial<MockEndpoint> = {};
+  const documentedParams: DocumentedParam[] = [];
+  /** null when the Authorization row says the endpoint is public */
+  let authRow: EndpointAuth | null | undefined;
   let hasMethodRow = false;
   let hasUrlRow = false;
 
@@ -258,7 +368,11 @@ function parseEndpointFromTable($: cheerio.CheerioAPI, table: any): Partial<Mock
       // Parse URL field
       if (label.includes('url') || label.includes('endpoint')) {
         hasUrlRow = true;
-        let url = value.split('?')[0].trim(); // Remove query params
+        const split = splitUrl(value);
+        let url = split.path.trim();
+        if (split.queryParams.length > 0) {
+          endpoint.queryParams = split.queryParams;
+        }
         
         // Fix truncated path params: {filter -> {filter}, {id -> {id}
         // Confluence sometimes splits/truncates path params across elements
@@ -274,6 +388,29 @@ function parseEndpointFromTable($: cheerio.CheerioAPI, table: any): Partial<Mock
         endpoint.path = url;
       }
 
+      // Parse Status field, e.g. "201" or "201 Created, 404, 422"
+      if (label.includes('status')) {
+        const codes = (value.match(/\b[1-5]\d\d\b/g) ?? []).map(code => parseInt(code, 10));
+        const success = codes.find(code => code >= 200 && code < 300);
+        if (success) {
+          endpoint.status = success;
+        }
+        const others = codes.filter(code => code !== success);
+        if (others.length > 0) {
+          endpoint.responses = others.map(code => ({ status: code, response: { message: STATUS_CODES[code] ?? 'Error' } }));
+        }
+      }
+
+      // Parse Authorization, Headers and Parameters fields, unless they hold a parameter table
+      if (label.includes('auth') && valueElem.find('table').length === 0) {
+        authRow = parseAuthText(value);
+      } else if (label.includes('header') && valueElem.find('table').length === 0) {
+        documentedParams.push(...parseHeaderCell($, valueElem));
+      } else if (label.includes('param') && valueElem.find('table').length === 0) {
+        const location = label.includes('path') ? 'path' : label.includes('query') ? 'query' : undefined;
+        documentedParams.push(...parseParamCell($, valueElem).map(p => ({ location, ...p })));
+      }
+
       // Parse Method field
       if (label.includes('method')) {
         hasMethodRow = true;
@@ -283,7 +420,7 @@ function parseEndpointFromTable($: cheerio.CheerioAPI, table: any): Partial<Mock
           endpoint.method = methodMatch[1].toUpperCase() as MockEndpoint['method'];
         } else {
           // Debug: couldn't find method in value
-          console.log(`[DEBUG] Method field found but no HTTP method in value: "${value}"`);
+          log(`[DEBUG] Method field found but no HTTP method in value: "${value}"`);
         }
       }
     } catch (error) {
@@ -293,17 +430,119 @@ function parseEndpointFromTable($: cheerio.CheerioAPI, table: any): Partial<Mock
 
   // Debug logging
   if (hasMethodRow || hasUrlRow) {
-    console.log(`[DEBUG] Table scan: URL=${hasUrlRow}(${endpoint.path || 'none'}), Method=${hasMethodRow}(${endpoint.method || 'none'})`);
+    log(`[DEBUG] Table scan: URL=${hasUrlRow}(${endpoint.path || 'none'}), Method=${hasMethodRow}(${endpoint.method || 'none'})`);
   }
 
   // Only return if we have both method and path
   if (endpoint.method && endpoint.path) {
+    applyParams(endpoint, documentedParams);
+    if (authRow) {
+      endpoint.auth = { ...endpoint.auth, ...authRow };
+    } else if (authRow === null) {
+      delete endpoint.auth;
+    }
     return endpoint;
   }
 
   return null;
 }
 
+/**
+ * Sets pathParams from the path's {param} segments and merges documented
+ * parameters into them, the query parameters from the URL row and the
+ * headers. A documented Authorization or API key header becomes `auth`.
+ */
+function applyParams(endpoint: Partial<MockEndpoint>, documented: DocumentedParam[]): void {
+  const merged = mergeDocumentedParams(
+    endpoint.pathParams ?? pathParamsFromPath(endpoint.path ?? ''),
+    endpoint.queryParams ?? [],
+    endpoint.headers ?? [],
+    documented,
+  );
+  const { headers, auth } = extractAuthHeader(merged.headers);
+  delete endpoint.pathParams;
+  delete endpoint.queryParams;
+  delete endpoint.headers;
+  if (merged.pathParams.length > 0) endpoint.pathParams = merged.pathParams;
+  if (merged.queryParams.length > 0) endpoint.queryParams = merged.queryParams;
+  if (headers.length > 0) endpoint.headers = headers;
+  if (auth && !endpoint.auth) endpoint.auth = auth;
+}
+
+/**
+ * Pulls documented alternative responses out of a snippet. Returns them
+ * together with the text that is left, so the default Request/Response
+ * extraction never picks up an error body.
+ */
+function extractAlternativeResponses(text: string): { responses: MockResponse[]; remainingText: string } {
+  const headings = [...text.matchAll(ALTERNATIVE_RESPONSE_HEADING)];
+  if (headings.length === 0) {
+    return { responses: [], remainingText: text };
+  }
+
+  const responses: MockResponse[] = [];
+  const removed: Array<{ start: number; end: number }> = [];
+
+  headings.forEach((heading, i) => {
+    const matchStart = heading.index ?? 0;
+    const bodyStart = matchStart + heading[0].length;
+    // Words before the match on the same line belong to the heading ("Validation Error Response (422)")
+    const lineStart = text.lastIndexOf('\n', matchStart) + 1;
+    const start = /^[A-Za-z \t]*$/.test(text.substring(lineStart, matchStart)) ? lineStart : matchStart;
+    // The body must come before the next heading or Request/Response keyword
+    const limits = [
+      i + 1 < headings.length ? headings[i + 1].index ?? text.length : text.length,
+      indexOrEnd(text, 'Response:', bodyStart),
+      indexOrEnd(text, 'Request:', bodyStart),
+    ];
+    const section = text.substring(bodyStart, Math.min(...limits));
+    const status = parseInt(heading[1] ?? heading[2] ?? heading[3], 10);
+    const description = text.substring(start, bodyStart).replace(/[ \t]*:$/, '').trim();
+
+    const raw = extractRawJSONBlock(section, '');
+    let end = bodyStart;
+    let response: unknown = { message: STATUS_CODES[status] ?? 'Error' };
+    if (raw) {
+      const snippet = extractStructuredJSON(section, '');
+      response = snippet.value ?? response;
+      end = bodyStart + section.indexOf(raw) + raw.length;
+    }
+
+    removed.push({ start, end });
+    if (!responses.some(r => r.status === status)) {
+      responses.push({ status, response, description });
+    }
+  });
+
+  let remainingText = '';
+  let cursor = 0;
+  for (const range of removed) {
+    remainingText += text.substring(cursor, range.start) + '\n';
+    cursor = range.end;
+  }
+  remainingText += text.substring(cursor);
+
+  return { responses, remainingText };
+}
+
+/**
+ * Adds responses for status codes that are not in the list yet
+ */
+function mergeResponses(existing: MockResponse[], added: MockResponse[]): MockResponse[] {
+  const merged = [...existing];
+  for (const response of added) {
+    if (!merged.some(r => r.status === response.status)) {
+      merged.push(response);
+    }
+  }
+  return merged;
+}
+
+function indexOrEnd(text: string, keyword: string, from: number): number {
+  const index = text.indexOf(keyword, from);
+  return index === -1 ? text.length : index;
+}
+
 /**
  * Extracts a complete JSON object from text, handling nested structures
  */
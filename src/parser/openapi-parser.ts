@@ -0,0 +1,366 @@
+import { parse as parseYAML } from 'yaml';
+import { EndpointAuth, MockEndpoint, MockParam, MockResponse, MockSchema } from './schema-types';
+
+/**
+ * Parses OpenAPI 3 and Swagger 2 documents into the same MockSchema
+ * produced by the Confluence ERD parser.
+ */
+
+type SpecObject = Record<string, unknown>;
+
+const SUPPORTED_METHODS: MockEndpoint['method'][] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+/** Guards against pathologically deep inline schemas */
+const MAX_SCHEMA_DEPTH = 8;
+
+export function parseOpenAPIDocument(content: string): MockSchema {
+  const doc = parseSpecContent(content);
+
+  const isSwagger2 = typeof doc.swagger === 'string' && doc.swagger.startsWith('2');
+  const isOpenAPI3 = typeof doc.openapi === 'string' && doc.openapi.startsWith('3');
+  if (!isSwagger2 && !isOpenAPI3) {
+    throw new Error('Unsupported spec document: expected an "openapi: 3.x" or "swagger: 2.0" field');
+  }
+
+  const basePath = isSwagger2 ? normalizeBasePath(doc.basePath) : serverBasePath(doc.servers);
+  const endpoints: MockSchema = [];
+
+  for (const [rawPath, pathItem] of Object.entries(isObject(doc.paths) ? doc.paths : {})) {
+    if (!isObject(pathItem)) continue;
+    const path = `${basePath}${rawPath}`;
+
+    for (const method of SUPPORTED_METHODS) {
+      const operation = pathItem[method.toLowerCase()];
+      if (!isObject(operation)) continue;
+
+      const { status, response } = extractSuccessResponse(doc, operation, isSwagger2);
+      const responses = extractOtherResponses(doc, operation, isSwagger2, status);
+      const parameters = [...asArray(pathItem.parameters), ...asArray(operation.parameters)];
+      const request = isSwagger2
+        ? extractSwagger2Request(doc, parameters)
+        : extractOpenAPI3Request(doc, operation.requestBody);
+      const pathParams = extractParams(doc, parameters, 'path');
+      const queryParams = extractParams(doc, parameters, 'query');
+      // Accept, Content-Type and Authorization header parameters are ignored by the spec itself
+      const headers = extractParams(doc, parameters, 'header')
+        .filter(h => !['accept', 'content-type', 'authorization'].includes(h.name.toLowerCase()));
+      const auth = extractAuth(doc, operation.security ?? doc.security, isSwagger2);
+
+      endpoints.push({
+        method,
+        path,
+        request,
+        response: response ?? {},
+        status,
+        ...(responses.length > 0 && { responses }),
+        ...(pathParams.length > 0 && { pathParams }),
+        ...(queryParams.length > 0 && { queryParams }),
+        ...(headers.length > 0 && { headers }),
+        ...(auth && { auth }),
+      });
+    }
+  }
+
+  return endpoints;
+}
+
+function parseSpecContent(content: string): SpecObject {
+  const trimmed = content.trim();
+  let parsed: unknown;
+  try {
+    parsed = trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYAML(trimmed);
+  } catch (error) {
+    throw new Error(`Failed to parse spec document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  if (!isObject(parsed)) {
+    throw new Error('Failed to parse spec document: expected a JSON or YAML object');
+  }
+  return parsed;
+}
+
+function normalizeBasePath(basePath: unknown): string {
+  if (typeof basePath !== 'string' || basePath === '/') return '';
+  return `/${basePath.replace(/^\/+|\/+$/g, '')}`;
+}
+
+/**
+ * Uses the path part of the first server URL, e.g. https://api.example.com/v1 → /v1
+ */
+function serverBasePath(servers: unknown): string {
+  if (!Array.isArray(servers) || !isObject(servers[0]) || typeof servers[0].url !== 'string') {
+    return '';
+  }
+  const url: string = servers[0].url;
+  try {
+    return normalizeBasePath(new URL(url).pathname);
+  } catch {
+    // Relative server URLs such as "/api/v2"
+    return normalizeBasePath(url.split('?')[0]);
+  }
+}
+
+/**
+ * Picks the documented success response: the lowest 2xx code, then "default".
+ */
+function extractSuccessResponse(
+  doc: SpecObject,
+  operation: SpecObject,
+  isSwagger2: boolean,
+): { status?: number; response?: unknown } {
+  const responses: SpecObject = isObject(operation.responses) ? operation.responses : {};
+  const successCode = Object.keys(responses)
+    .filter(code => /^2\d\d$/.test(code))
+    .sort()[0];
+  const code = successCode ?? (responses.default ? 'default' : undefined);
+  if (!code) return {};
+
+  const status = code === 'default' ? undefined : parseInt(code, 10);
+  const responseObject = resolveRef(doc, responses[code]);
+  if (!isObject(responseObject)) return { status };
+
+  return { status, response: sampleResponseBody(doc, responseObject, isSwagger2) };
+}
+
+/**
+ * Every numbered response besides the success one, e.g. 404 and 422
+ */
+function extractOtherResponses(
+  doc: SpecObject,
+  operation: SpecObject,
+  isSwagger2: boolean,
+  successStatus: number | undefined,
+): MockResponse[] {
+  const responses: SpecObject = isObject(operation.responses) ? operation.responses : {};
+  return Object.keys(responses)
+    .filter(code => /^[1-5]\d\d$/.test(code) && parseInt(code, 10) !== successStatus)
+    .sort()
+    .map(code => {
+      const responseObject = resolveRef(doc, responses[code]);
+      const status = parseInt(code, 10);
+      if (!isObject(responseObject)) return { status, response: {} };
+      return {
+        status,
+        response: sampleResponseBody(doc, responseObject, isSwagger2) ?? {},
+        ...(typeof responseObject.description === 'string' && { description: responseObject.description }),
+      };
+    });
+}
+
+function sampleResponseBody(doc: SpecObject, responseObject: SpecObject, isSwagger2: boolean): unknown {
+  if (isSwagger2) {
+    const examples = responseObject.examples;
+    if (isObject(examples) && examples['application/json'] !== undefined) {
+      return examples['application/json'];
+    }
+    return sampleFromSchema(doc, responseObject.schema);
+  }
+
+  return sampleFromMediaTypes(doc, responseObject.content);
+}
+
+function extractOpenAPI3Request(doc: SpecObject, requestBody: unknown): unknown {
+  const resolved = resolveRef(doc, requestBody);
+  if (!isObject(resolved)) return undefined;
+  return sampleFromMediaTypes(doc, resolved.content);
+}
+
+function extractSwagger2Request(doc: SpecObject, parameters: unknown[]): unknown {
+  const resolved = parameters.map(p => resolveRef(doc, p)).filter(isObject);
+
+  const bodyParam = resolved.find(p => p.in === 'body');
+  if (bodyParam) return sampleFromSchema(doc, bodyParam.schema);
+
+  const formParams = resolved.filter(p => p.in === 'formData');
+  if (formParams.length === 0) return undefined;
+  const form: Record<string, unknown> = {};
+  for (const param of formParams) {
+    if (typeof param.name === 'string') form[param.name] = sampleFromSchema(doc, param);
+  }
+  return form;
+}
+
+/**
+ * Path or query parameters; operation-level ones override path-level ones
+ * with the same name. Swagger 2 keeps type/enum/default on the parameter itself.
+ */
+function extractParams(doc: SpecObject, parameters: unknown[], location: 'path' | 'query' | 'header'): MockParam[] {
+  const byName = new Map<string, MockParam>();
+
+  for (const param of parameters.map(p => resolveRef(doc, p)).filter(isObject)) {
+    if (param.in !== location || typeof param.name !== 'string') continue;
+    const schema = resolveRef(doc, param.schema ?? param);
+    const type = isObject(schema) && typeof schema.type === 'string' ? schema.type : 'string';
+
+    byName.set(param.name, {
+      name: param.name,
+      type: type === 'integer' || type === 'number' || type === 'boolean' ? type : 'string',
+      required: location === 'path' || param.required === true,
+      ...(isObject(schema) && Array.isArray(schema.enum) && { enum: schema.enum.map(String) }),
+      ...(isObject(schema) && isParamValue(schema.default) && { default: schema.default }),
+      ...(typeof param.description === 'string' && { description: param.description }),
+    });
+  }
+
+  return [...byName.values()];
+}
+
+/**
+ * The first security requirement that maps onto a header: http bearer/basic,
+ * OAuth2 and OpenID Connect (bearer tokens), or an API key in a header.
+ */
+function extractAuth(doc: SpecObject, security: unknown, isSwagger2: boolean): EndpointAuth | undefined {
+  if (!Array.isArray(security)) return undefined;
+  const definitions = isSwagger2
+    ? doc.securityDefinitions
+    : isObject(doc.components) ? doc.components.securitySchemes : undefined;
+  const schemes = isObject(definitions) ? definitions : {};
+
+  for (const requirement of security.filter(isObject)) {
+    for (const name of Object.keys(requirement)) {
+      const scheme = resolveRef(doc, schemes[name]);
+      if (!isObject(scheme)) continue;
+
+      if (scheme.type === 'apiKey' && scheme.in === 'header' && typeof scheme.name === 'string') {
+        return { scheme: 'apiKey', header: scheme.name };
+      }
+      if (scheme.type === 'basic' || (scheme.type === 'http' && String(scheme.scheme).toLowerCase() === 'basic')) {
+        return { scheme: 'basic', header: 'Authorization' };
+      }
+      if (scheme.type === 'http' || scheme.type === 'oauth2' || scheme.type === 'openIdConnect') {
+        return { scheme: 'bearer', header: 'Authorization' };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Prefers JSON media types, then uses example → examples → schema
+ */
+function sampleFromMediaTypes(doc: SpecObject, content: unknown): unknown {
+  if (!isObject(content)) return undefined;
+
+  const mediaTypes = Object.keys(content);
+  const mediaType = mediaTypes.find(t => t === 'application/json')
+    ?? mediaTypes.find(t => t.includes('json'))
+    ?? mediaTypes[0];
+  if (!mediaType) return undefined;
+
+  const media = content[mediaType];
+  if (!isObject(media)) return undefined;
+
+  if (media.example !== undefined) return media.example;
+  if (isObject(media.examples)) {
+    const first = resolveRef(doc, Object.values(media.examples)[0]);
+    if (isObject(first) && first.value !== undefined) return first.value;
+  }
+  return sampleFromSchema(doc, media.schema);
+}
+
+/**
+ * Builds a sample value from a JSON Schema. The values only need to carry the
+ * right shape and primitive types; data-generator replaces them with fake data.
+ */
+function sampleFromSchema(
+  doc: SpecObject,
+  schema: unknown,
+  depth = 0,
+  refStack: string[] = [],
+): unknown {
+  if (isObject(schema) && typeof schema.$ref === 'string') {
+    // Stop at the first repeat of a ref so recursive models stay one level deep
+    if (refStack.includes(schema.$ref)) return undefined;
+    refStack = [...refStack, schema.$ref];
+  }
+
+  const resolved = resolveRef(doc, schema);
+  if (!isObject(resolved) || depth > MAX_SCHEMA_DEPTH) return undefined;
+
+  if (resolved.example !== undefined) return resolved.example;
+  if (Array.isArray(resolved.enum) && resolved.enum.length > 0) return resolved.enum[0];
+
+  if (Array.isArray(resolved.allOf)) {
+    const merged: Record<string, unknown> = {};
+    for (const part of resolved.allOf) {
+      const sample = sampleFromSchema(doc, part, depth + 1, refStack);
+      if (isObject(sample)) Object.assign(merged, sample);
+    }
+    return merged;
+  }
+
+  const variants = resolved.oneOf ?? resolved.anyOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    return sampleFromSchema(doc, variants[0], depth + 1, refStack);
+  }
+
+  const type = Array.isArray(resolved.type)
+    ? resolved.type.find((t: unknown) => t !== 'null')
+    : resolved.type ?? (resolved.properties ? 'object' : resolved.items ? 'array' : undefined);
+
+  switch (type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [key, propSchema] of Object.entries(resolved.properties ?? {})) {
+        result[key] = sampleFromSchema(doc, propSchema, depth + 1, refStack) ?? null;
+      }
+      return result;
+    }
+    case 'array': {
+      const item = sampleFromSchema(doc, resolved.items, depth + 1, refStack);
+      return item === undefined ? [] : [item];
+    }
+    case 'integer':
+    case 'number':
+      return resolved.default ?? resolved.minimum ?? 0;
+    case 'boolean':
+      return resolved.default ?? false;
+    case 'string':
+      return resolved.default ?? sampleStringForFormat(resolved.format);
+    default:
+      return undefined;
+  }
+}
+
+function sampleStringForFormat(format: unknown): string {
+  switch (format) {
+    case 'date-time': return '2024-01-01T00:00:00Z';
+    case 'date': return '2024-01-01';
+    case 'email': return 'user@example.com';
+    case 'uuid': return '00000000-0000-0000-0000-000000000000';
+    case 'uri':
+    case 'url': return 'https://example.com';
+    default: return 'string';
+  }
+}
+
+/**
+ * Resolves local JSON pointer refs such as #/components/schemas/User
+ */
+function resolveRef(doc: SpecObject, value: unknown, seen: Set<string> = new Set()): unknown {
+  if (!isObject(value) || typeof value.$ref !== 'string') return value;
+
+  const ref: string = value.$ref;
+  if (!ref.startsWith('#/') || seen.has(ref)) return undefined;
+  seen.add(ref);
+
+  let target: unknown = doc;
+  for (const rawSegment of ref.slice(2).split('/')) {
+    const segment = rawSegment.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (!isObject(target)) return undefined;
+    target = target[segment];
+  }
+  return resolveRef(doc, target, seen);
+}
+
+function isObject(value: unknown): value is SpecObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/** Parameter defaults that MockParam can hold */
+function isParamValue(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
@@ -0,0 +1,386 @@
+import * as cheerio from 'cheerio';
+import { EndpointAuth, MockParam } from './schema-types';
+
+/**
+ * Path, query and header parameters from ERD pages. They are documented in these places:
+ *
+ *   URL row            /api/orders/{id}?status={status}&page=1
+ *   Parameters row     "status (string, optional): one of pending, paid, cancelled"
+ *   parameter table    | Name | Type | Required | In | Default | Description |
+ *   Headers row        "Accept-Language: ar | en", "X-Store-Id (required)"
+ *   Authorization row  "Bearer token", "Basic", "API key in X-Api-Key", "None"
+ */
+
+/** A parameter as documented, before it is sorted into path and query */
+export interface DocumentedParam extends Omit<MockParam, 'type'> {
+  /** Unset when the docs do not say, so a type implied by the URL survives */
+  type?: MockParam['type'];
+  /** "path", "query", "header", "body"... when the docs say so */
+  location?: string;
+}
+
+const TYPE_NAMES: Record<string, MockParam['type']> = {
+  string: 'string',
+  str: 'string',
+  text: 'string',
+  uuid: 'string',
+  date: 'string',
+  datetime: 'string',
+  email: 'string',
+  enum: 'string',
+  integer: 'integer',
+  int: 'integer',
+  long: 'integer',
+  number: 'number',
+  float: 'number',
+  double: 'number',
+  decimal: 'number',
+  boolean: 'boolean',
+  bool: 'boolean',
+};
+
+const NAME_HEADERS = ['name', 'parameter', 'param', 'field', 'key', 'query'];
+const TYPE_HEADERS = ['type', 'data type', 'datatype', 'format'];
+const REQUIRED_HEADERS = ['required', 'mandatory', 'optional'];
+const LOCATION_HEADERS = ['in', 'location', 'where', 'param type', 'parameter type'];
+const DEFAULT_HEADERS = ['default', 'default value'];
+const ENUM_HEADERS = ['values', 'enum', 'allowed values', 'options', 'possible values'];
+const DESCRIPTION_HEADERS = ['description', 'notes', 'details', 'comment'];
+
+/** Parameters rows that document no parameters */
+const NO_PARAMS = /^(none|n\/?a|no|nil|null)$/i;
+
+/** Where request data other than path, query and header parameters lives */
+const OTHER_LOCATIONS = ['body', 'form', 'formdata', 'cookie'];
+
+/** Content negotiation headers are optional unless the docs say otherwise */
+const OPTIONAL_HEADERS = ['accept', 'accept-language', 'content-type', 'accept-encoding'];
+
+/** Headers that carry an API key or token rather than data */
+const API_KEY_HEADER = /^(x-)?(api[-_]?key|auth[-_]?token|access[-_]?token|token)$/i;
+
+/** Authorization rows saying that no credentials are needed */
+const NO_AUTH = /^(none|no|n\/?a|not required|public|anonymous|-)\b/i;
+
+/**
+ * Splits "/api/orders?status={status}&page=1" into the path and its query
+ * parameters. Literal values are kept as examples, not defaults: a documented
+ * "?status=paid" shows a sample request, it does not filter every list.
+ */
+export function splitUrl(url: string): { path: string; queryParams: MockParam[] } {
+  const [path, query = ''] = url.split('?');
+  const queryParams: MockParam[] = [];
+
+  for (const pair of query.split('&').map(p => p.trim()).filter(Boolean)) {
+    const [name, value = ''] = pair.split('=').map(p => decodeURIComponentSafe(p.trim()));
+    if (!name || queryParams.some(p => p.name === name)) continue;
+
+    const param: MockParam = { name, type: 'string' };
+    if (value && !/^[{:<]/.test(value)) {
+      param.type = literalType(value);
+      param.example = coerceDefault(value, param.type);
+    }
+    queryParams.push(param);
+  }
+
+  return { path, queryParams };
+}
+
+/**
+ * One required string parameter per {param} segment
+ */
+export function pathParamsFromPath(path: string): MockParam[] {
+  return [...path.matchAll(/\{([^}]+)\}|:([A-Za-z_]\w*)/g)].map(match => ({
+    name: match[1] ?? match[2],
+    type: 'string',
+    required: true,
+  }));
+}
+
+/**
+ * Reads the value cell of a Parameters row: one parameter per list item,
+ * paragraph or line, e.g. "id (integer, required): Order id".
+ */
+export function parseParamCell($: cheerio.CheerioAPI, cell: any): DocumentedParam[] {
+  $(cell).find('br').replaceWith('\n');
+  const items = $(cell).find('li, p').toArray();
+  const lines = items.length > 0 ? items.map(item => $(item).text()) : $(cell).text().split('\n');
+
+  return lines.map(parseParamLine).filter((param): param is DocumentedParam => param !== null);
+}
+
+/**
+ * Reads a table with a name column and at least one of type, required,
+ * location or description. Returns null for any other table.
+ */
+export function parseParamTable($: cheerio.CheerioAPI, table: any): DocumentedParam[] | null {
+  const rows = $(table).find('tr').toArray().filter(row => $(row).closest('table').is(table));
+  if (rows.length < 2) return null;
+
+  const headers = $(rows[0]).children('th, td').toArray().map(cell => normalizeHeader($(cell).text()));
+  const column = (names: string[]) => headers.findIndex(h => names.includes(h));
+  const columns = {
+    name: column(NAME_HEADERS),
+    type: column(TYPE_HEADERS),
+    required: column(REQUIRED_HEADERS),
+    location: column(LOCATION_HEADERS),
+    default: column(DEFAULT_HEADERS),
+    enum: column(ENUM_HEADERS),
+    description: column(DESCRIPTION_HEADERS),
+  };
+  if (columns.name === -1 || [columns.type, columns.required, columns.location, columns.description].every(i => i === -1)) {
+    return null;
+  }
+
+  const params: DocumentedParam[] = [];
+  for (const row of rows.slice(1)) {
+    const cells = $(row).children('th, td').toArray().map(cell => $(cell).text().replace(/\s+/g, ' ').trim());
+    const cell = (index: number) => (index === -1 ? '' : cells[index] ?? '');
+
+    const name = cell(columns.name).replace(/[`'"]/g, '').split(/\s/)[0];
+    if (!name) continue;
+
+    const description = cell(columns.description);
+    const param: DocumentedParam = { name, type: parseType(cell(columns.type)) ?? parseType(description) };
+
+    const required = cell(columns.required);
+    if (required) {
+      param.required = headers[columns.required] === 'optional'
+        ? !isYes(required)
+        : isYes(required);
+    } else if (/\brequired\b/i.test(description)) {
+      param.required = true;
+    }
+
+    const location = cell(columns.location).toLowerCase();
+    if (location) param.location = location;
+
+    const values = cell(columns.enum) ? splitList(cell(columns.enum)) : parseEnum(description);
+    if (values) param.enum = values;
+
+    const defaultValue = cell(columns.default) || parseDefault(description);
+    if (defaultValue) param.default = coerceDefault(defaultValue, param.type);
+
+    if (description) param.description = description;
+    params.push(param);
+  }
+
+  return params;
+}
+
+/**
+ * Reads the value cell of a Headers row: one header per list item,
+ * paragraph or line, e.g. "Accept-Language: ar | en" or "X-Store-Id (required)".
+ * Headers are required unless marked optional, except content negotiation ones.
+ */
+export function parseHeaderCell($: cheerio.CheerioAPI, cell: any): DocumentedParam[] {
+  $(cell).find('br').replaceWith('\n');
+  const items = $(cell).find('li, p').toArray();
+  const lines = items.length > 0 ? items.map(item => $(item).text()) : $(cell).text().split(/\n|,\s*(?=[A-Za-z][\w-]*\s*:)/);
+
+  const headers: DocumentedParam[] = [];
+  for (const line of lines) {
+    const match = line
+      .replace(/\s+/g, ' ')
+      .trim()
+      .match(/^[-*•]?\s*`?([A-Za-z][\w-]*)`?\s*(?:\(([^)]*)\))?\s*(?::\s*(.*))?$/);
+    if (!match || NO_PARAMS.test(match[1])) continue;
+
+    const [, name, meta = '', value = ''] = match;
+    const details = `${meta} ${value}`;
+    const header: DocumentedParam = {
+      name,
+      type: 'string',
+      location: 'header',
+      required: /\brequired\b/i.test(details) || (!/\boptional\b/i.test(details) && !OPTIONAL_HEADERS.includes(name.toLowerCase())),
+    };
+
+    const sample = value.replace(/\b(required|optional)\b/gi, '').trim();
+    const values = sample.split(/\s*[|,]\s*/).filter(Boolean);
+    if (!/[{<]/.test(sample) && values.length > 1) {
+      header.enum = values;
+    }
+    if (value) header.description = value;
+    headers.push(header);
+  }
+  return headers;
+}
+
+/**
+ * Reads an Authorization row. Returns null when the endpoint is documented
+ * as public, undefined when the text says nothing recognisable.
+ */
+export function parseAuthText(text: string): EndpointAuth | null | undefined {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  if (!trimmed) return undefined;
+  if (NO_AUTH.test(trimmed)) return null;
+
+  const role = parseRole(trimmed);
+  if (/\bbasic\b/i.test(trimmed)) {
+    return { scheme: 'basic', header: 'Authorization', ...(role && { role }) };
+  }
+  if (/\bapi[-_ ]?key\b/i.test(trimmed)) {
+    const header = trimmed.match(/\b(X-[\w-]+|Api[-_]?Key)\b/i)?.[1] ?? 'X-API-Key';
+    return { scheme: 'apiKey', header, ...(role && { role }) };
+  }
+  if (/\b(bearer|jwt|token|required|yes|true|authenticated|login)\b/i.test(trimmed)) {
+    return { scheme: 'bearer', header: 'Authorization', ...(role && { role }) };
+  }
+  return undefined;
+}
+
+/**
+ * Takes the credentials header out of the documented headers:
+ * Authorization: Bearer {token}, or an API key header such as X-Api-Key.
+ */
+export function extractAuthHeader(headers: MockParam[]): { headers: MockParam[]; auth?: EndpointAuth } {
+  const credentials = headers.find(h => h.name.toLowerCase() === 'authorization' || API_KEY_HEADER.test(h.name));
+  if (!credentials) return { headers };
+
+  const rest = headers.filter(h => h !== credentials);
+  const details = credentials.description ?? '';
+  const role = parseRole(details);
+  if (API_KEY_HEADER.test(credentials.name)) {
+    return { headers: rest, auth: { scheme: 'apiKey', header: credentials.name, ...(role && { role }) } };
+  }
+  const scheme = /\bbasic\b/i.test(details) ? 'basic' : 'bearer';
+  return { headers: rest, auth: { scheme, header: 'Authorization', ...(role && { role }) } };
+}
+
+/**
+ * Sorts documented parameters into the endpoint's path, query and header
+ * parameters. Documented details win over what the URL implied; body
+ * parameters are left out.
+ */
+export function mergeDocumentedParams(
+  pathParams: MockParam[],
+  queryParams: MockParam[],
+  headers: MockParam[],
+  documented: DocumentedParam[],
+): { pathParams: MockParam[]; queryParams: MockParam[]; headers: MockParam[] } {
+  const merged = { pathParams: [...pathParams], queryParams: [...queryParams], headers: [...headers] };
+
+  for (const { location, ...documentedParam } of documented) {
+    const param = Object.fromEntries(Object.entries(documentedParam).filter(([, value]) => value !== undefined)) as Partial<MockParam>;
+    if (location && OTHER_LOCATIONS.some(other => location.includes(other))) continue;
+
+    if (location && location.includes('header')) {
+      const headerIndex = merged.headers.findIndex(h => h.name.toLowerCase() === param.name?.toLowerCase());
+      if (headerIndex !== -1) {
+        merged.headers[headerIndex] = { ...merged.headers[headerIndex], ...param };
+      } else {
+        merged.headers.push({ name: param.name, type: 'string', ...param } as MockParam);
+      }
+      continue;
+    }
+
+    const pathIndex = merged.pathParams.findIndex(p => p.name === param.name);
+    if (pathIndex !== -1) {
+      merged.pathParams[pathIndex] = { ...merged.pathParams[pathIndex], ...param, required: true };
+      continue;
+    }
+    if (location && location.includes('path')) continue;
+
+    const queryIndex = merged.queryParams.findIndex(p => p.name === param.name);
+    if (queryIndex !== -1) {
+      merged.queryParams[queryIndex] = { ...merged.queryParams[queryIndex], ...param };
+    } else {
+      merged.queryParams.push({ name: param.name, type: 'string', ...param } as MockParam);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * "status (string, optional): one of pending, paid" or "page - integer, default 1"
+ */
+function parseParamLine(line: string): DocumentedParam | null {
+  const match = line
+    .replace(/\s+/g, ' ')
+    .trim()
+    .match(/^[-*•]?\s*`?([A-Za-z_][\w.[\]-]*)`?\s*(?:\(([^)]*)\))?\s*(?:[:\-–—]\s*(.*))?$/);
+  if (!match || NO_PARAMS.test(match[1])) return null;
+
+  const [, name, meta = '', rest = ''] = match;
+  const details = `${meta} ${rest}`;
+  const param: DocumentedParam = { name, type: parseType(meta) ?? parseType(rest.split(/[\s,.;]/)[0]) };
+
+  if (/\brequired\b/i.test(details)) param.required = true;
+  else if (/\boptional\b/i.test(details)) param.required = false;
+
+  const location = meta.match(/\b(path|query|header|body)\b/i) ?? rest.match(/\bin (path|query|header|body)\b/i);
+  if (location) param.location = location[1].toLowerCase();
+
+  const values = parseEnum(details);
+  if (values) param.enum = values;
+
+  const defaultValue = parseDefault(details);
+  if (defaultValue) param.default = coerceDefault(defaultValue, param.type);
+
+  const description = rest.trim();
+  if (description) param.description = description;
+  return param;
+}
+
+/** "admin only", "role: admin", "(admin role)" */
+function parseRole(text: string): string | undefined {
+  const match = text.match(/\brole\s*[:=]\s*([\w-]+)|\b([\w-]+)\s+(?:only|role)\b/i);
+  const role = match?.[1] ?? match?.[2];
+  return role && !/^(bearer|basic|token|jwt|key|auth|user|users)$/i.test(role) ? role : undefined;
+}
+
+function parseType(text: string): MockParam['type'] | undefined {
+  const words = text.toLowerCase().split(/[^a-z-]+/).filter(Boolean);
+  const word = words.find(w => w.replace(/-/g, '') in TYPE_NAMES);
+  return word ? TYPE_NAMES[word.replace(/-/g, '')] : undefined;
+}
+
+/** "one of a, b, c", "enum: a|b|c", "values: a / b" */
+function parseEnum(text: string): string[] | undefined {
+  const match = text.match(/\b(?:one of|enum|values|allowed|options)\s*:?\s*([^;()]+?)(?:\.\s|;|\)|$|\bdefault\b)/i);
+  return match ? splitList(match[1]) : undefined;
+}
+
+/** "default 1", "default: paid", "defaults to 20" */
+function parseDefault(text: string): string | undefined {
+  const match = text.match(/\bdefaults?(?:\s+to|\s+is)?\s*[:=]?\s*`?([^\s,;)`]+)`?/i);
+  return match ? match[1].replace(/[.'"]+$|^['"]/g, '') : undefined;
+}
+
+function splitList(text: string): string[] | undefined {
+  const values = text
+    .split(/\s*(?:,|\||\/|\bor\b)\s*/)
+    .map(v => v.replace(/[`'"]/g, '').trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+function literalType(value: string): MockParam['type'] {
+  if (/^-?\d+$/.test(value)) return 'integer';
+  if (/^-?\d*\.\d+$/.test(value)) return 'number';
+  if (/^(true|false)$/i.test(value)) return 'boolean';
+  return 'string';
+}
+
+function coerceDefault(value: string, type: MockParam['type'] | undefined): string | number | boolean {
+  if ((type === 'integer' || type === 'number') && !isNaN(Number(value))) return Number(value);
+  if (type === 'boolean' && /^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+  return value;
+}
+
+function isYes(text: string): boolean {
+  return /^(yes|y|true|required|mandatory|✓|✔|x)\b/i.test(text.trim());
+}
+
+function normalizeHeader(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase().replace(/[^a-z ]/g, '').trim();
+}
+
+function decodeURIComponentSafe(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,43 @@
+import { MockEndpoint, MockSchema } from './schema-types';
+
+/**
+ * Endpoint-level differences between two versions of a schema
+ */
+export interface SchemaDiff {
+  added: MockEndpoint[];
+  removed: MockEndpoint[];
+  /** Same method + path, different request/response/status */
+  changed: MockEndpoint[];
+}
+
+export function diffSchemas(previous: MockSchema, next: MockSchema): SchemaDiff {
+  const previousByKey = new Map(previous.map(ep => [endpointKey(ep), ep]));
+  const nextByKey = new Map(next.map(ep => [endpointKey(ep), ep]));
+
+  const diff: SchemaDiff = { added: [], removed: [], changed: [] };
+
+  for (const [key, endpoint] of nextByKey) {
+    const before = previousByKey.get(key);
+    if (!before) {
+      diff.added.push(endpoint);
+    } else if (JSON.stringify(before) !== JSON.stringify(endpoint)) {
+      diff.changed.push(endpoint);
+    }
+  }
+
+  for (const [key, endpoint] of previousByKey) {
+    if (!nextByKey.has(key)) {
+      diff.removed.push(endpoint);
+    }
+  }
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: SchemaDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+function endpointKey(endpoint: MockEndpoint): string {
+  return `${endpoint.method} ${endpoint.path}`;
+}
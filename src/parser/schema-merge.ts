@@ -0,0 +1,80 @@
+import { MockSchema } from './schema-types';
+
+/**
+ * A parsed schema together with the page or file it came from
+ */
+export interface SchemaSource {
+  source: string;
+  schema: MockSchema;
+}
+
+/**
+ * A method + path pair documented by more than one source
+ */
+export interface DuplicateEndpoint {
+  method: string;
+  path: string;
+  /** Source that owns the endpoint in the merged schema */
+  keptFrom: string;
+  /** Sources whose definition was dropped */
+  ignoredFrom: string[];
+}
+
+export interface MergeResult {
+  schema: MockSchema;
+  duplicates: DuplicateEndpoint[];
+}
+
+/**
+ * Merges schemas from several sources into one.
+ * The first definition of a method + path wins; later ones are reported as
+ * duplicates. Repeats within the same source are kept as-is so single-page
+ * behaviour is unchanged.
+ */
+export function mergeSchemas(sources: SchemaSource[]): MergeResult {
+  const schema: MockSchema = [];
+  const owners = new Map<string, string>();
+  const duplicates = new Map<string, DuplicateEndpoint>();
+
+  for (const { source, schema: sourceSchema } of sources) {
+    for (const endpoint of sourceSchema) {
+      const key = endpointKey(endpoint.method, endpoint.path);
+      const owner = owners.get(key);
+
+      if (owner === undefined) {
+        owners.set(key, source);
+        schema.push(endpoint);
+        continue;
+      }
+
+      if (owner === source) {
+        schema.push(endpoint);
+        continue;
+      }
+
+      const duplicate = duplicates.get(key) ?? {
+        method: endpoint.method,
+        path: endpoint.path,
+        keptFrom: owner,
+        ignoredFrom: [],
+      };
+      if (!duplicate.ignoredFrom.includes(source)) {
+        duplicate.ignoredFrom.push(source);
+      }
+      duplicates.set(key, duplicate);
+    }
+  }
+
+  return { schema, duplicates: Array.from(duplicates.values()) };
+}
+
+/**
+ * Normalizes `{id}` and `:id` params so /users/{id} and /users/:userId collide
+ */
+function endpointKey(method: string, path: string): string {
+  const normalizedPath = path
+    .replace(/\{[^}]+\}/g, ':param')
+    .replace(/:[^/]+/g, ':param')
+    .replace(/\/+$/, '');
+  return `${method.toUpperCase()} ${normalizedPath}`;
+}
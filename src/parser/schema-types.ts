@@ -9,6 +9,51 @@ export interface MockEndpoint {
   request?: unknown;
   response: unknown;
   status?: number;
+  /** Other documented responses (errors, validation failures), served on request */
+  responses?: MockResponse[];
+  /** {param} segments of the path, with documented types */
+  pathParams?: MockParam[];
+  /** Documented query string parameters */
+  queryParams?: MockParam[];
+  /** Documented request headers besides the credentials, e.g. Accept-Language or X-Store-Id */
+  headers?: MockParam[];
+  /** Credentials the endpoint requires, when the docs say so */
+  auth?: EndpointAuth;
+}
+
+/**
+ * Documented authentication: "Bearer token", "Basic", "API key in X-Api-Key"
+ */
+export interface EndpointAuth {
+  scheme: 'bearer' | 'basic' | 'apiKey';
+  /** Header carrying the credentials */
+  header: string;
+  /** Role the user needs, e.g. "admin" for "Bearer token (admin only)" */
+  role?: string;
+}
+
+/**
+ * A documented path or query parameter, e.g. "status (string, optional): one of pending, paid"
+ */
+export interface MockParam {
+  name: string;
+  type: 'string' | 'integer' | 'number' | 'boolean';
+  required?: boolean;
+  enum?: string[];
+  default?: string | number | boolean;
+  /** Sample value, e.g. "paid" from a URL row's ?status=paid; documentation only */
+  example?: string | number | boolean;
+  description?: string;
+}
+
+/**
+ * A documented response other than the default one, e.g. "Error Response (422):"
+ */
+export interface MockResponse {
+  status: number;
+  response: unknown;
+  /** Heading or description it was documented under */
+  description?: string;
 }
 
 export type MockSchema = MockEndpoint[];
@@ -0,0 +1,80 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { MockSchema } from './schema-types';
+
+/**
+ * Compiled schema snapshots (api.mock.json).
+ * Lets a parsed Confluence page be committed and served offline.
+ */
+
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+export interface SnapshotSource {
+  /** Page URL, file path or "<title> (<pageId>)" for page-tree entries */
+  url: string;
+  /** Confluence page version, when the page was loaded through the REST API */
+  pageVersion?: number;
+}
+
+export interface MockSnapshot {
+  formatVersion: number;
+  metadata: {
+    sources: SnapshotSource[];
+    generatedAt: string;
+    generator: string;
+  };
+  schema: MockSchema;
+}
+
+export function createSnapshot(
+  schema: MockSchema,
+  sources: SnapshotSource[],
+  generator: string,
+): MockSnapshot {
+  return {
+    formatVersion: SNAPSHOT_FORMAT_VERSION,
+    metadata: {
+      sources,
+      generatedAt: new Date().toISOString(),
+      generator,
+    },
+    schema,
+  };
+}
+
+export function writeSnapshot(filePath: string, snapshot: MockSnapshot): void {
+  writeFileSync(filePath, JSON.stringify(snapshot, null, 2) + '\n');
+}
+
+/**
+ * Reads and validates a snapshot file written by `mock-mock compile`
+ */
+export function readSnapshot(filePath: string): MockSnapshot {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read snapshot ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray((parsed as MockSnapshot).schema)) {
+    throw new Error(`Invalid snapshot ${filePath}: expected a "schema" array. Recreate it with "mock-mock compile".`);
+  }
+
+  const snapshot = parsed as MockSnapshot;
+  if (snapshot.formatVersion > SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(
+      `Snapshot ${filePath} uses format version ${snapshot.formatVersion}, ` +
+      `but this version of mock-mock only supports up to ${SNAPSHOT_FORMAT_VERSION}. Upgrade mock-mock.`
+    );
+  }
+
+  for (const [index, endpoint] of snapshot.schema.entries()) {
+    if (!endpoint || typeof endpoint.method !== 'string' || typeof endpoint.path !== 'string') {
+      throw new Error(`Invalid snapshot ${filePath}: endpoint #${index + 1} is missing a method or path`);
+    }
+  }
+
+  return snapshot;
+}
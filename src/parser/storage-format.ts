@@ -0,0 +1,170 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * Confluence storage format (what the REST API returns in body.storage):
+ *
+ *   <ac:structured-macro ac:name="code">        code snippet, with language/title parameters
+ *     <ac:plain-text-body><![CDATA[...]]>
+ *   <ac:structured-macro ac:name="expand">      collapsible section, titled by its title parameter
+ *     <ac:rich-text-body>...</ac:rich-text-body>
+ *   <ac:structured-macro ac:name="status">      coloured lozenge, e.g. the method in an endpoint table
+ *   <ac:structured-macro ac:name="panel">       panel/info/note/tip/warning boxes
+ *
+ * Code snippets are matched to endpoint tables by the headings they sit
+ * under, not by where they happen to fall between two tables.
+ */
+
+/** Code snippets of a storage-format page, grouped by the endpoint table they document */
+export interface StorageSnippets {
+  /** Snippets per endpoint table, in document order */
+  byTable: Map<unknown, string[]>;
+  /** Self-contained "GET /api/..." definitions, and every snippet on pages without endpoint tables */
+  standalone: string[];
+}
+
+interface Position {
+  /** Ids of the enclosing heading sections, outermost first */
+  sections: number[];
+  order: number;
+}
+
+interface Snippet extends Position {
+  content: string;
+}
+
+interface EndpointTable extends Position {
+  table: unknown;
+}
+
+const CODE_MACROS = new Set(['code', 'noformat']);
+const HEADING_TAG = /^h([1-6])$/;
+const ENDPOINT_DEFINITION = /^(GET|POST|PUT|DELETE|PATCH)\s+\//im;
+/** Paragraphs longer than this are prose, not a label like "Response Structure:" */
+const MAX_LABEL_LENGTH = 80;
+
+export function isStorageFormat(html: string): boolean {
+  return /<ac:(structured-macro|rich-text-body|plain-text-body|layout)\b/.test(html);
+}
+
+/**
+ * Loads storage format with CDATA intact and status macros reduced to their
+ * titles, so an endpoint table's Method row reads "POST" instead of "POSTPurple".
+ */
+export function loadStorageFormat(html: string): cheerio.CheerioAPI {
+  const $ = cheerio.load(html, {
+    xml: { xmlMode: false, recognizeCDATA: true, recognizeSelfClosing: true, decodeEntities: true },
+  });
+
+  $('ac\\:structured-macro[ac\\:name="status"]').each((_, macro) => {
+    $(macro).replaceWith($('<span></span>').text(macroParameter($, macro, 'title') ?? ''));
+  });
+
+  return $;
+}
+
+/**
+ * Walks the document and gives every code snippet to the endpoint table in
+ * the deepest heading section they share: the last table before the snippet
+ * there, or the first one after it. Pure JSON snippets are prefixed with
+ * their label (code title, expand title, or the short paragraph or heading
+ * before them), so "Response Structure" in an expand title counts as a keyword.
+ */
+export function collectStorageSnippets($: cheerio.CheerioAPI, endpointTables: unknown[]): StorageSnippets {
+  const tables: EndpointTable[] = [];
+  const snippets: Snippet[] = [];
+  const headings: Array<{ level: number; id: number }> = [];
+  let lastLabel: string | undefined;
+  let nextId = 1;
+  let order = 0;
+
+  const position = (): Position => ({ sections: headings.map(h => h.id), order: order++ });
+
+  const visit = (node: any, enclosingTitle?: string): void => {
+    if (node.type !== 'tag') return;
+    const name: string = node.name.toLowerCase();
+
+    const heading = name.match(HEADING_TAG);
+    if (heading) {
+      const level = parseInt(heading[1], 10);
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+      headings.push({ level, id: nextId++ });
+      lastLabel = labelText($(node).text());
+      return;
+    }
+
+    if (name === 'table' && endpointTables.includes(node)) {
+      tables.push({ table: node, ...position() });
+    }
+
+    if (name === 'ac:structured-macro') {
+      const macro = (node.attribs['ac:name'] ?? '').toLowerCase();
+      const title = macroParameter($, node, 'title');
+
+      if (CODE_MACROS.has(macro)) {
+        const content = $(node).children('ac\\:plain-text-body').text().trim();
+        const label = title ?? enclosingTitle ?? lastLabel;
+        lastLabel = undefined;
+        if (content) {
+          snippets.push({ content: withLabel(content, label), ...position() });
+        }
+        return;
+      }
+
+      // expand, panel, info, note, tip, warning, tabs...: only the body holds content
+      for (const body of $(node).children('ac\\:rich-text-body').toArray()) {
+        for (const child of $(body).children().toArray()) visit(child, title ?? enclosingTitle);
+      }
+      return;
+    }
+
+    if (name === 'p') {
+      lastLabel = labelText($(node).text()) ?? lastLabel;
+    }
+
+    for (const child of $(node).children().toArray()) visit(child, enclosingTitle);
+  };
+
+  for (const node of $.root().children().toArray()) visit(node);
+
+  const byTable = new Map<unknown, string[]>(tables.map(t => [t.table, []]));
+  const standalone: string[] = [];
+
+  for (const snippet of snippets) {
+    const owner = ENDPOINT_DEFINITION.test(snippet.content) ? null : findOwner(snippet, tables);
+    if (owner) {
+      byTable.get(owner.table)!.push(snippet.content);
+    } else {
+      standalone.push(snippet.content);
+    }
+  }
+
+  return { byTable, standalone };
+}
+
+function findOwner(snippet: Snippet, tables: EndpointTable[]): EndpointTable | null {
+  for (let depth = snippet.sections.length; depth >= 0; depth--) {
+    const section = snippet.sections.slice(0, depth);
+    const candidates = tables.filter(t => section.every((id, i) => t.sections[i] === id));
+    if (candidates.length === 0) continue;
+
+    const before = candidates.filter(t => t.order < snippet.order);
+    return before.length > 0 ? before[before.length - 1] : candidates[0];
+  }
+  return null;
+}
+
+function macroParameter($: cheerio.CheerioAPI, macro: any, name: string): string | undefined {
+  const value = $(macro).children(`ac\\:parameter[ac\\:name="${name}"]`).first().text().trim();
+  return value || undefined;
+}
+
+function labelText(text: string): string | undefined {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  return trimmed && trimmed.length <= MAX_LABEL_LENGTH ? trimmed : undefined;
+}
+
+/** "Response Structure" + "{...}" → "Response Structure:\n{...}" */
+function withLabel(content: string, label: string | undefined): string {
+  if (!label || !/^[{[]/.test(content)) return content;
+  return `${label.endsWith(':') ? label : `${label}:`}\n${content}`;
+}
@@ -0,0 +1,66 @@
+import { MockEndpoint, MockResponse, MockSchema } from '../parser/schema-types';
+import { singularize } from '../server/relations';
+import { Recording } from './recordings';
+
+/**
+ * Turns recordings into schema endpoints, so undocumented endpoints seen on
+ * the real backend can be served like documented ones.
+ */
+
+const SUPPORTED_METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']);
+
+/** Segments that look like ids: 42, UUIDs, long hex or mixed alphanumeric tokens */
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{24,}|(?=.*\d)[A-Za-z0-9_-]{16,})$/i;
+
+/**
+ * Groups JSON recordings by method and templated path (/orders/5/items/7 →
+ * /orders/{orderId}/items/{id}). The latest 2xx recording provides the
+ * response; other status codes become alternative responses.
+ */
+export function recordingsToSchema(recordings: Recording[]): MockSchema {
+  const groups = new Map<string, Recording[]>();
+  for (const recording of recordings) {
+    if (!SUPPORTED_METHODS.has(recording.method) || recording.bodyEncoding !== 'json') continue;
+    const key = `${recording.method} ${templatePath(recording.path)}`;
+    groups.set(key, [...(groups.get(key) ?? []), recording]);
+  }
+
+  const schema: MockSchema = [];
+  for (const [key, group] of groups) {
+    const [method, path] = key.split(' ');
+    const latestFirst = [...group].sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+    const primary = latestFirst.find(r => r.status >= 200 && r.status < 300) ?? latestFirst[0];
+
+    const responses: MockResponse[] = [];
+    for (const recording of latestFirst) {
+      if (recording.status === primary.status || responses.some(r => r.status === recording.status)) continue;
+      responses.push({ status: recording.status, response: recording.body, description: 'Recorded response' });
+    }
+
+    const request = latestFirst.find(r => r.requestBody !== undefined)?.requestBody;
+    schema.push({
+      method: method as MockEndpoint['method'],
+      path,
+      ...(request !== undefined && { request }),
+      response: primary.body,
+      status: primary.status,
+      ...(responses.length > 0 && { responses }),
+    });
+  }
+
+  return schema.sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+}
+
+function templatePath(path: string): string {
+  const segments = path.split('/');
+  return segments
+    .map((seg, i) => {
+      if (!ID_SEGMENT.test(seg)) return seg;
+      const owner = segments[i - 1];
+      // Ids before further segments identify a parent
+      if (i === segments.length - 1 || !owner || ID_SEGMENT.test(owner)) return '{id}';
+      const name = singularize(owner).replace(/[-_]([a-z])/g, (_, c: string) => c.toUpperCase());
+      return `{${name}Id}`;
+    })
+    .join('/');
+}
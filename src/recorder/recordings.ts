@@ -0,0 +1,226 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Request/response pairs captured from the fallback backend (--record) and
+ * served offline (--replay). One JSON file per distinct request; recording
+ * the same request again overwrites it.
+ */
+
+export interface Recording {
+  method: string;
+  path: string;
+  query: Record<string, string | string[]>;
+  /** sha256 of the request body, null when there was none */
+  bodyHash: string | null;
+  /** Kept so promoted endpoints get a request template */
+  requestBody?: unknown;
+  status: number;
+  /** set-cookie stays a list: cookie Expires dates contain commas, so joined cookies can't be split again */
+  headers: Record<string, string | string[]>;
+  /** Parsed JSON, text, or base64 for binary responses */
+  body: unknown;
+  bodyEncoding: 'json' | 'text' | 'base64';
+  recordedAt: string;
+}
+
+/**
+ * Which parts of a request must equal the recording to replay it.
+ * Method and path always have to match.
+ */
+export interface ReplayMatchRules {
+  query: boolean;
+  body: boolean;
+}
+
+export const DEFAULT_REPLAY_MATCH: ReplayMatchRules = { query: true, body: false };
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, unknown>;
+  body: unknown;
+}
+
+/** Not meaningful once the response has been stored */
+const SKIPPED_HEADERS = new Set(['transfer-encoding', 'connection', 'keep-alive', 'content-length', 'date']);
+
+export class RecordingLibrary {
+  private recordings: Recording[] = [];
+
+  constructor(private dir: string) {}
+
+  /**
+   * Reads every recording in dir. A missing directory is an empty library.
+   */
+  static load(dir: string): RecordingLibrary {
+    const library = new RecordingLibrary(dir);
+    if (!existsSync(dir)) return library;
+
+    for (const file of readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+      try {
+        const recording = JSON.parse(readFileSync(join(dir, file), 'utf-8')) as Recording;
+        if (typeof recording.method === 'string' && typeof recording.path === 'string') {
+          library.recordings.push(recording);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`[WARN] Skipping recording ${file}: ${message}`);
+      }
+    }
+    return library;
+  }
+
+  get size(): number {
+    return this.recordings.length;
+  }
+
+  list(): Recording[] {
+    return [...this.recordings];
+  }
+
+  /**
+   * Stores a proxied response and writes it to disk. Returns the file name.
+   */
+  save(
+    request: RecordedRequest,
+    response: { status: number; headers: Record<string, unknown>; data: Buffer },
+  ): string {
+    const recording: Recording = {
+      method: request.method.toUpperCase(),
+      path: request.path,
+      query: normalizeQuery(request.query),
+      bodyHash: hashBody(request.body),
+      ...(hasBody(request.body) && { requestBody: request.body }),
+      status: response.status,
+      headers: filterHeaders(response.headers),
+      ...encodeBody(response.data, String(response.headers['content-type'] ?? '')),
+      recordedAt: new Date().toISOString(),
+    };
+
+    const file = recordingFileName(recording);
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(join(this.dir, file), JSON.stringify(recording, null, 2) + '\n');
+
+    this.recordings = this.recordings.filter(r => recordingFileName(r) !== file);
+    this.recordings.push(recording);
+    return file;
+  }
+
+  /**
+   * Most recent recording matching the request under the rules
+   */
+  find(request: RecordedRequest, rules: ReplayMatchRules = DEFAULT_REPLAY_MATCH): Recording | undefined {
+    const method = request.method.toUpperCase();
+    const query = JSON.stringify(sortKeys(normalizeQuery(request.query)));
+    const bodyHash = hashBody(request.body);
+
+    const matches = this.recordings.filter(r =>
+      r.method === method &&
+      r.path === request.path &&
+      (!rules.query || JSON.stringify(sortKeys(r.query)) === query) &&
+      (!rules.body || r.bodyHash === bodyHash)
+    );
+    return matches.sort((a, b) => a.recordedAt.localeCompare(b.recordedAt)).pop();
+  }
+}
+
+/**
+ * Parses the --replay-match value: "query", "query,body", "body" or "path"
+ * (method and path only).
+ */
+export function parseReplayMatchRules(value: string): ReplayMatchRules {
+  const parts = value.split(',').map(p => p.trim().toLowerCase()).filter(Boolean);
+  const unknown = parts.filter(p => !['path', 'query', 'body'].includes(p));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown replay match rule(s): ${unknown.join(', ')}. Use path, query and/or body.`);
+  }
+  return { query: parts.includes('query'), body: parts.includes('body') };
+}
+
+/**
+ * Decodes a recording's body for sending
+ */
+export function recordingBody(recording: Recording): string | Buffer {
+  switch (recording.bodyEncoding) {
+    case 'json':
+      return JSON.stringify(recording.body);
+    case 'base64':
+      return Buffer.from(String(recording.body), 'base64');
+    default:
+      return String(recording.body ?? '');
+  }
+}
+
+function encodeBody(data: Buffer, contentType: string): Pick<Recording, 'body' | 'bodyEncoding'> {
+  if (/json/i.test(contentType)) {
+    try {
+      return { body: JSON.parse(data.toString('utf-8')), bodyEncoding: 'json' };
+    } catch {
+      // Invalid JSON is kept verbatim below
+    }
+  }
+  if (/^text\/|json|xml|javascript/i.test(contentType) || data.length === 0) {
+    return { body: data.toString('utf-8'), bodyEncoding: 'text' };
+  }
+  return { body: data.toString('base64'), bodyEncoding: 'base64' };
+}
+
+function filterHeaders(headers: Record<string, unknown>): Record<string, string | string[]> {
+  const filtered: Record<string, string | string[]> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    const name = key.toLowerCase();
+    if (value === undefined || value === null || SKIPPED_HEADERS.has(name)) continue;
+    if (Array.isArray(value)) {
+      filtered[name] = name === 'set-cookie' ? value.map(String) : value.join(', ');
+    } else {
+      filtered[name] = String(value);
+    }
+  }
+  return filtered;
+}
+
+/** Express bodies default to {} when nothing was sent */
+function hasBody(body: unknown): boolean {
+  if (body === undefined || body === null) return false;
+  if (typeof body === 'object' && !Array.isArray(body)) return Object.keys(body).length > 0;
+  return body !== '';
+}
+
+function hashBody(body: unknown): string | null {
+  if (!hasBody(body)) return null;
+  return createHash('sha256').update(JSON.stringify(sortKeys(body))).digest('hex');
+}
+
+function normalizeQuery(query: Record<string, unknown>): Record<string, string | string[]> {
+  const normalized: Record<string, string | string[]> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (typeof value === 'string') {
+      normalized[key] = value;
+    } else if (Array.isArray(value)) {
+      normalized[key] = value.map(String);
+    }
+  }
+  return normalized;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value;
+}
+
+/**
+ * GET_api_orders_5_3f2a9c1b.json: readable prefix, hash of the full request
+ */
+function recordingFileName(recording: Recording): string {
+  const identity = JSON.stringify([recording.method, recording.path, sortKeys(recording.query), recording.bodyHash]);
+  const hash = createHash('sha1').update(identity).digest('hex').slice(0, 8);
+  const slug = recording.path.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 80);
+  return `${recording.method}_${slug || 'root'}_${hash}.json`;
+}
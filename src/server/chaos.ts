@@ -0,0 +1,339 @@
+import { STATUS_CODES } from 'http';
+import { Request, Response } from 'express';
+import { matchesGlob, normalizePath } from './scenarios';
+
+/**
+ * Fault injection for resilience testing (--chaos). Every request to a
+ * documented endpoint rolls the dice for extra latency, a dropped
+ * connection, a random 5xx, a truncated JSON body or a slow-drip body.
+ * With a seed, the same sequence of requests gets the same failures.
+ */
+
+export const LATENCY_DISTRIBUTIONS = ['uniform', 'normal', 'exponential'] as const;
+
+export interface ChaosSettings {
+  /** Probability (0-1) of answering with one of errorStatuses */
+  errorRate: number;
+  errorStatuses: number[];
+  /** Probability of closing the connection without a response */
+  dropRate: number;
+  /** Extra latency per request, drawn from latencyDistribution between min and max */
+  latencyMin: number;
+  latencyMax: number;
+  latencyDistribution: typeof LATENCY_DISTRIBUTIONS[number];
+  /** Probability of cutting the JSON body off part way */
+  truncateRate: number;
+  /** Probability of sending the body a few bytes at a time */
+  dripRate: number;
+  dripChunkBytes: number;
+  dripIntervalMs: number;
+}
+
+/** Settings for endpoints matching method + path, on top of the global ones */
+export interface ChaosOverride {
+  method: string;
+  path: string;
+  settings: Partial<ChaosSettings>;
+}
+
+export const DEFAULT_CHAOS_SETTINGS: ChaosSettings = {
+  errorRate: 0.1,
+  errorStatuses: [500, 502, 503, 504],
+  dropRate: 0.02,
+  latencyMin: 0,
+  latencyMax: 1000,
+  latencyDistribution: 'uniform',
+  truncateRate: 0.02,
+  dripRate: 0.02,
+  dripChunkBytes: 16,
+  dripIntervalMs: 200,
+};
+
+const RATE_KEYS = ['errorRate', 'dropRate', 'truncateRate', 'dripRate'] as const;
+const MS_KEYS = ['latencyMin', 'latencyMax', 'dripIntervalMs'] as const;
+
+interface ChaosDecision {
+  latency: number;
+  drop: boolean;
+  status: number | null;
+  truncateAt: number | null;
+  drip: boolean;
+  settings: ChaosSettings;
+}
+
+export class ChaosController {
+  private enabled: boolean;
+  private settings: ChaosSettings;
+  private overrides: ChaosOverride[] = [];
+  private seed: number | null;
+  private random: () => number;
+
+  constructor(settings: Partial<ChaosSettings> | undefined, seed: number | null = null) {
+    this.enabled = settings !== undefined;
+    this.settings = { ...DEFAULT_CHAOS_SETTINGS, ...settings };
+    this.seed = seed;
+    this.random = createRandom(seed);
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return {
+      enabled: this.enabled,
+      seed: this.seed,
+      settings: this.settings,
+      endpoints: this.overrides,
+    };
+  }
+
+  /**
+   * Applies a /_config/chaos update. With method and path the settings only
+   * apply to matching endpoints; otherwise they change the global settings.
+   * Setting a seed restarts the failure sequence. Throws on invalid input.
+   */
+  update(input: unknown): void {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new Error('Expected a JSON object');
+    }
+    const { enabled, seed, method, path, ...rest } = input as Record<string, unknown>;
+
+    if (enabled !== undefined && typeof enabled !== 'boolean') throw new Error('enabled must be a boolean');
+    if (seed !== undefined && seed !== null && !Number.isInteger(seed)) {
+      throw new Error('seed must be an integer, or null for a random sequence');
+    }
+    if ((method === undefined) !== (path === undefined)) throw new Error('method and path must be given together');
+    const settings = parseChaosSettings(rest);
+
+    if (typeof method === 'string' && typeof path === 'string') {
+      if (!path.startsWith('/')) throw new Error('path must start with "/"');
+      const target = { method: method.toUpperCase(), path: normalizePath(path) };
+      const existing = this.overrides.find(o => o.method === target.method && o.path === target.path);
+      if (existing) {
+        existing.settings = { ...existing.settings, ...settings };
+      } else {
+        this.overrides.push({ ...target, settings });
+      }
+    } else {
+      this.settings = { ...this.settings, ...settings };
+    }
+
+    if (enabled !== undefined) this.enabled = enabled;
+    if (seed !== undefined) {
+      this.seed = seed as number | null;
+      this.random = createRandom(this.seed);
+    }
+  }
+
+  /** Returns false when there was no override for that method and path */
+  removeOverride(method: string, path: string): boolean {
+    const before = this.overrides.length;
+    this.overrides = this.overrides.filter(
+      o => !(o.method === method.toUpperCase() && o.path === normalizePath(path)),
+    );
+    return this.overrides.length < before;
+  }
+
+  /**
+   * Drops every change made since startup except the seed. Chaos ends up
+   * disabled (DELETE /_config/chaos) unless `enabled` says otherwise.
+   */
+  reset(initial: Partial<ChaosSettings> | undefined, enabled = false): void {
+    this.enabled = enabled;
+    this.settings = { ...DEFAULT_CHAOS_SETTINGS, ...initial };
+    this.overrides = [];
+    this.random = createRandom(this.seed);
+  }
+
+  /**
+   * Rolls the dice for one request. Always draws the same amount of random
+   * numbers, so a seeded sequence does not shift when settings change.
+   */
+  decide(method: string, route: string, requestPath: string): ChaosDecision | null {
+    if (!this.enabled) return null;
+
+    const settings = { ...this.settings };
+    for (const override of this.overrides) {
+      const methodMatches = override.method === '*' || override.method === method;
+      if (methodMatches && (matchesGlob(override.path, route) || matchesGlob(override.path, requestPath))) {
+        Object.assign(settings, override.settings);
+      }
+    }
+
+    const [dropRoll, errorRoll, statusRoll, latencyA, latencyB, truncateRoll, truncatePoint, dripRoll] =
+      Array.from({ length: 8 }, () => this.random());
+
+    return {
+      latency: drawLatency(settings, latencyA, latencyB),
+      drop: dropRoll < settings.dropRate,
+      status: errorRoll < settings.errorRate && settings.errorStatuses.length > 0
+        ? settings.errorStatuses[Math.floor(statusRoll * settings.errorStatuses.length)]
+        : null,
+      truncateAt: truncateRoll < settings.truncateRate ? truncatePoint : null,
+      drip: dripRoll < settings.dripRate,
+      settings,
+    };
+  }
+}
+
+/**
+ * Applies a decision before the endpoint handler runs. Returns true when
+ * chaos already answered (or dropped) the request. Otherwise res.json is
+ * wrapped so the endpoint's body can be truncated or dripped.
+ */
+export async function applyChaos(decision: ChaosDecision, req: Request, res: Response): Promise<boolean> {
+  if (decision.latency > 0) {
+    await sleep(decision.latency);
+  }
+
+  if (decision.drop) {
+    req.socket.destroy();
+    return true;
+  }
+
+  if (decision.status !== null) {
+    res.status(decision.status).json({ error: STATUS_CODES[decision.status] ?? 'Error', chaos: true });
+    return true;
+  }
+
+  if (decision.truncateAt !== null || decision.drip) {
+    // The body still goes through the res.json already in place (e.g. the
+    // Accept-Language wrapper); only the text it sends is cut or dripped
+    const json = res.json.bind(res);
+    res.json = (body?: unknown) => {
+      const send = res.send.bind(res);
+      res.send = (serialized?: unknown) => {
+        res.send = send;
+        let text = typeof serialized === 'string' ? serialized : JSON.stringify(serialized) ?? '';
+        if (decision.truncateAt !== null && text.length > 1) {
+          text = text.slice(0, Math.max(1, Math.floor(text.length * decision.truncateAt)));
+        }
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        if (decision.drip) {
+          drip(res, Buffer.from(text), decision.settings);
+        } else {
+          send(text);
+        }
+        return res;
+      };
+      return json(body);
+    };
+  }
+
+  return false;
+}
+
+/**
+ * Parses "errorRate=0.2,latencyMax=3000,errorStatuses=500|503" (the --chaos value)
+ */
+export function parseChaosSpec(spec: string): Partial<ChaosSettings> {
+  const input: Record<string, unknown> = {};
+  for (const pair of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+    const separator = pair.indexOf('=');
+    if (separator === -1) {
+      throw new Error(`Invalid chaos setting "${pair}". Expected key=value`);
+    }
+    const key = pair.slice(0, separator).trim();
+    const value = pair.slice(separator + 1).trim();
+    if (key === 'errorStatuses') {
+      input[key] = value.split('|').map(Number);
+    } else if (key === 'latencyDistribution') {
+      input[key] = value;
+    } else {
+      input[key] = Number(value);
+    }
+  }
+  return parseChaosSettings(input);
+}
+
+function parseChaosSettings(input: Record<string, unknown>): Partial<ChaosSettings> {
+  const settings: Partial<ChaosSettings> = {};
+
+  for (const [key, value] of Object.entries(input)) {
+    if ((RATE_KEYS as readonly string[]).includes(key)) {
+      if (typeof value !== 'number' || isNaN(value) || value < 0 || value > 1) {
+        throw new Error(`${key} must be a probability between 0 and 1`);
+      }
+    } else if ((MS_KEYS as readonly string[]).includes(key) || key === 'dripChunkBytes') {
+      if (typeof value !== 'number' || isNaN(value) || value < 0 || (key === 'dripChunkBytes' && value < 1)) {
+        throw new Error(`${key} must be a non-negative number`);
+      }
+    } else if (key === 'latencyDistribution') {
+      if (!LATENCY_DISTRIBUTIONS.includes(value as ChaosSettings['latencyDistribution'])) {
+        throw new Error(`latencyDistribution must be one of: ${LATENCY_DISTRIBUTIONS.join(', ')}`);
+      }
+    } else if (key === 'errorStatuses') {
+      if (!Array.isArray(value) || !value.every(code => Number.isInteger(code) && code >= 100 && code <= 599)) {
+        throw new Error('errorStatuses must be a list of HTTP status codes');
+      }
+    } else {
+      throw new Error(`Unknown chaos setting "${key}"`);
+    }
+    (settings as Record<string, unknown>)[key] = value;
+  }
+
+  const { latencyMin, latencyMax } = settings;
+  if (latencyMin !== undefined && latencyMax !== undefined && latencyMin > latencyMax) {
+    throw new Error('latencyMin must not be greater than latencyMax');
+  }
+  return settings;
+}
+
+function drawLatency(settings: ChaosSettings, a: number, b: number): number {
+  const min = Math.min(settings.latencyMin, settings.latencyMax);
+  const max = Math.max(settings.latencyMin, settings.latencyMax);
+  const range = max - min;
+
+  let value: number;
+  switch (settings.latencyDistribution) {
+    case 'normal': {
+      // Box-Muller, centred in the range with ~99.7% of values inside it
+      const z = Math.sqrt(-2 * Math.log(1 - a)) * Math.cos(2 * Math.PI * b);
+      value = min + range / 2 + z * (range / 6);
+      break;
+    }
+    case 'exponential':
+      // Mostly fast, with a long tail towards max
+      value = min - Math.log(1 - a) * (range / 4);
+      break;
+    default:
+      value = min + a * range;
+  }
+  return Math.round(Math.min(max, Math.max(min, value)));
+}
+
+function drip(res: Response, body: Buffer, settings: ChaosSettings): void {
+  res.setHeader('Content-Length', body.length);
+  let offset = 0;
+  const timer = setInterval(() => {
+    const chunk = body.subarray(offset, offset + settings.dripChunkBytes);
+    offset += chunk.length;
+    if (offset >= body.length) {
+      clearInterval(timer);
+      res.end(chunk);
+    } else {
+      res.write(chunk);
+    }
+  }, settings.dripIntervalMs);
+  res.on('close', () => clearInterval(timer));
+}
+
+/**
+ * mulberry32; seeded sequences are independent of faker's data generation
+ */
+function createRandom(seed: number | null): () => number {
+  if (seed === null) return Math.random;
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,229 @@
+/**
+ * Filtering, searching, sorting and pagination for collection GET endpoints.
+ *
+ *   ?page=2&per_page=10      pagination (parameter names are configurable)
+ *   ?search=term / ?q=term   case-insensitive match on any string value
+ *   ?sort=-created_at,name   sort by one or more fields, "-" for descending
+ *   ?status=active,pending   field filters (comma = any of), dot paths for nesting
+ */
+
+export interface PaginationConfig {
+  pageParam: string;
+  perPageParam: string;
+  /** When set, lists are paginated even without a page/per_page query */
+  defaultPerPage?: number;
+  maxPerPage: number;
+}
+
+export const DEFAULT_PAGINATION: PaginationConfig = {
+  pageParam: 'page',
+  perPageParam: 'per_page',
+  maxPerPage: 1000,
+};
+
+export interface CollectionQueryResult {
+  items: Record<string, unknown>[];
+  total: number;
+  page: number;
+  perPage: number;
+  lastPage: number;
+  /** 1-based index of the first item on the page (0 when empty) */
+  from: number;
+  to: number;
+}
+
+export type QueryParams = Record<string, unknown>;
+
+/** Page size used when ?page= is sent without ?per_page= or a configured default */
+const DEFAULT_PER_PAGE = 15;
+
+const SEARCH_PARAMS = ['search', 'q'];
+const SORT_PARAM = 'sort';
+
+export function queryItems(
+  items: Record<string, unknown>[],
+  query: QueryParams,
+  config: PaginationConfig = DEFAULT_PAGINATION,
+): CollectionQueryResult {
+  const params = normalizeQuery(query);
+  const reserved = new Set([...SEARCH_PARAMS, SORT_PARAM, config.pageParam, config.perPageParam]);
+
+  let result = items;
+
+  // Field filters: only keys that exist on the items, so unrelated params are ignored
+  for (const [key, value] of Object.entries(params)) {
+    if (reserved.has(key) || !items.some(item => getPath(item, key) !== undefined)) continue;
+    const accepted = value.split(',').map(v => v.trim().toLowerCase());
+    result = result.filter(item => {
+      const fieldValue = getPath(item, key);
+      return fieldValue !== undefined && accepted.includes(String(fieldValue).toLowerCase());
+    });
+  }
+
+  const searchParam = SEARCH_PARAMS.find(p => params[p]);
+  if (searchParam) {
+    const term = params[searchParam].toLowerCase();
+    result = result.filter(item => containsText(item, term));
+  }
+
+  if (params[SORT_PARAM]) {
+    result = sortItems(result, params[SORT_PARAM]);
+  }
+
+  const total = result.length;
+  const requestedPerPage = parseInt(params[config.perPageParam] ?? '', 10);
+  const isPaged = requestedPerPage > 0 || !!params[config.pageParam] || config.defaultPerPage !== undefined;
+  // Unpaged requests get everything on one page, as before pagination existed
+  const perPage = isPaged
+    ? Math.min(config.maxPerPage, requestedPerPage > 0 ? requestedPerPage : config.defaultPerPage ?? DEFAULT_PER_PAGE)
+    : Math.max(total, 1);
+  const lastPage = Math.max(1, Math.ceil(total / perPage));
+  const page = Math.max(1, parseInt(params[config.pageParam] ?? '1', 10) || 1);
+  const start = (page - 1) * perPage;
+  const pageItems = result.slice(start, start + perPage);
+
+  return {
+    items: pageItems,
+    total,
+    page,
+    perPage,
+    lastPage,
+    from: pageItems.length > 0 ? start + 1 : 0,
+    to: pageItems.length > 0 ? start + pageItems.length : 0,
+  };
+}
+
+const META_FIELDS: Record<string, (r: CollectionQueryResult) => number> = {
+  total: r => r.total,
+  count: r => r.items.length,
+  current_page: r => r.page,
+  currentPage: r => r.page,
+  page: r => r.page,
+  last_page: r => r.lastPage,
+  lastPage: r => r.lastPage,
+  total_pages: r => r.lastPage,
+  totalPages: r => r.lastPage,
+  per_page: r => r.perPage,
+  perPage: r => r.perPage,
+  from: r => r.from,
+  to: r => r.to,
+};
+
+/**
+ * Fills pagination fields that the documented wrapper already has
+ * (top level, inside `meta`/`pagination`, and `links`) with real values.
+ * Fields the documentation doesn't mention are never added.
+ */
+export function fillPaginationMeta(
+  shell: Record<string, unknown>,
+  result: CollectionQueryResult,
+  pageUrl: (page: number) => string,
+): Record<string, unknown> {
+  const filled = fillMetaFields(shell, result);
+
+  for (const key of ['meta', 'pagination', 'page_info', 'pageInfo']) {
+    if (isPlainObject(filled[key])) {
+      filled[key] = fillMetaFields(filled[key] as Record<string, unknown>, result);
+      const nestedLinks = (filled[key] as Record<string, unknown>).links;
+      if (isPlainObject(nestedLinks)) {
+        (filled[key] as Record<string, unknown>).links = fillLinks(nestedLinks, result, pageUrl);
+      }
+    }
+  }
+
+  if (isPlainObject(filled.links)) {
+    filled.links = fillLinks(filled.links as Record<string, unknown>, result, pageUrl);
+  }
+
+  return filled;
+}
+
+function fillMetaFields(obj: Record<string, unknown>, result: CollectionQueryResult): Record<string, unknown> {
+  const filled = { ...obj };
+  for (const [key, compute] of Object.entries(META_FIELDS)) {
+    if (key in filled && (typeof filled[key] === 'number' || filled[key] === null)) {
+      filled[key] = compute(result);
+    }
+  }
+  return filled;
+}
+
+function fillLinks(
+  links: Record<string, unknown>,
+  result: CollectionQueryResult,
+  pageUrl: (page: number) => string,
+): Record<string, unknown> {
+  const filled = { ...links };
+  const values: Record<string, string | null> = {
+    first: pageUrl(1),
+    last: pageUrl(result.lastPage),
+    prev: result.page > 1 ? pageUrl(result.page - 1) : null,
+    next: result.page < result.lastPage ? pageUrl(result.page + 1) : null,
+    self: pageUrl(result.page),
+  };
+  for (const [key, value] of Object.entries(values)) {
+    if (key in filled) filled[key] = value;
+  }
+  return filled;
+}
+
+/**
+ * Express gives strings, arrays (?a=1&a=2) or objects; keep strings only,
+ * joining repeats with commas.
+ */
+function normalizeQuery(query: QueryParams): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (typeof value === 'string') {
+      params[key] = value;
+    } else if (Array.isArray(value) && value.every(v => typeof v === 'string')) {
+      params[key] = value.join(',');
+    }
+  }
+  return params;
+}
+
+function sortItems(items: Record<string, unknown>[], sort: string): Record<string, unknown>[] {
+  const fields = sort
+    .split(',')
+    .map(f => f.trim())
+    .filter(Boolean)
+    .map(f => (f.startsWith('-') ? { path: f.slice(1), direction: -1 } : { path: f.replace(/^\+/, ''), direction: 1 }));
+
+  return [...items].sort((a, b) => {
+    for (const { path, direction } of fields) {
+      const cmp = compareValues(getPath(a, path), getPath(b, path));
+      if (cmp !== 0) return cmp * direction;
+    }
+    return 0;
+  });
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === undefined || a === null) return 1;
+  if (b === undefined || b === null) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+function containsText(value: unknown, term: string): boolean {
+  if (typeof value === 'string') return value.toLowerCase().includes(term);
+  if (typeof value === 'number') return String(value) === term;
+  if (Array.isArray(value)) return value.some(v => containsText(v, term));
+  if (isPlainObject(value)) return Object.values(value).some(v => containsText(v, term));
+  return false;
+}
+
+function getPath(item: unknown, path: string): unknown {
+  let current: unknown = item;
+  for (const segment of path.split('.')) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -1,14 +1,77 @@
-import { faker } from '@faker-js/faker';
+import { Faker } from '@faker-js/faker';
+import { createFaker, DEFAULT_LOCALE, fakerFor, isLocalizedObject, resolveLocale } from './locales';
+import { applyRule, DataRules, findRule, RuleScope } from './data-rules';
+import { detectFormat, generateFormatted } from './value-formats';
+import { isTemplate } from './response-templates';
+
+export interface GenerateOptions {
+  /** Language of plain text fields; localized objects ({ en, ar }) get every language they list */
+  locale?: string;
+  /** Field rules from mockmock.config, applied before the name-based heuristics */
+  rules?: DataRules;
+  /** Endpoint the data is for, selecting its endpoint-specific rules */
+  scope?: RuleScope;
+  /** Return the documented sample exactly as written */
+  literal?: boolean;
+  /** Faker of the server the data is for (see DataStore.faker) */
+  faker?: Faker;
+}
+
+/** For callers that pass no faker of their own */
+let defaultFaker: Faker | undefined;
+
+/**
+ * Runs a generator with faker seeded from (seed, scope), so the same scope
+ * (e.g. a collection key or request URL) always produces the same data,
+ * independent of the order in which scopes are generated.
+ * Without a seed the generator runs on faker's current randomness.
+ */
+export function withSeed<T>(faker: Faker, seed: number | null | undefined, scope: string, generate: () => T): T {
+  if (seed === null || seed === undefined) {
+    return generate();
+  }
+  faker.seed(deriveSeed(seed, scope));
+  return generate();
+}
+
+/**
+ * Drops any seed left on faker so unseeded generation is random again
+ */
+export function resetSeed(faker: Faker): void {
+  faker.seed();
+}
+
+/**
+ * FNV-1a hash of "<seed>:<scope>", kept in faker's 32-bit seed range
+ */
+function deriveSeed(seed: number, scope: string): number {
+  let hash = 0x811c9dc5;
+  const input = `${seed}:${scope}`;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
 
 /**
  * Generates fake data based on a template object
- * Replaces string/number/boolean values with realistic fake data
+ * Replaces string/number/boolean values with realistic fake data; documented
+ * formats such as dates, UUIDs and enum-like values are kept (see value-formats.ts)
+ *
+ * @param path Field names leading to the template, for path rules ("address.city")
  */
-export function generateFakeData(template: unknown): unknown {
+export function generateFakeData(template: unknown, options: GenerateOptions = {}, path: string[] = []): unknown {
   if (template === null || template === undefined) {
     return template;
   }
 
+  if (options.literal) {
+    // Templates come from JSON, so this copies them fully (structuredClone needs Node 17)
+    return JSON.parse(JSON.stringify(template));
+  }
+  const faker = fakerOf(options);
+
   // Handle arrays
   if (Array.isArray(template)) {
     if (template.length === 0) {
@@ -17,7 +80,7 @@ export function generateFakeData(template: unknown): unknown {
     }
     // Generate 15-30 items based on the first template item (fallback path)
     const itemCount = faker.number.int({ min: 15, max: 30 });
-    return Array.from({ length: itemCount }, () => generateFakeData(template[0]));
+    return Array.from({ length: itemCount }, () => generateFakeData(template[0], options, path));
   }
 
   // Handle objects
@@ -25,46 +88,75 @@ export function generateFakeData(template: unknown): unknown {
     const result: Record<string, unknown> = {};
     
     for (const [key, value] of Object.entries(template)) {
-      result[key] = generateFakeDataForField(key, value);
+      result[key] = generateFakeDataForField(key, value, options, [...path, key]);
     }
     
     return result;
   }
 
-  // Primitive values
-  return generatePrimitiveValue(template);
+  // Primitive values, e.g. the elements of ["string"]
+  if (typeof template === 'string' && isTemplate(template)) {
+    return template;
+  }
+  const ruled = generateFromRule(options, path);
+  return ruled !== undefined ? ruled : generatePrimitiveValue(template, options, path[path.length - 1] ?? '');
 }
 
 /**
  * Generates fake data for a specific field based on key name and value type
  */
-function generateFakeDataForField(key: string, value: unknown): unknown {
+function generateFakeDataForField(key: string, value: unknown, options: GenerateOptions, path: string[]): unknown {
   const lowerKey = key.toLowerCase();
+  const faker = fakerOf(options);
+
+  // {{request.params.id}} and the like are filled in per request (see response-templates.ts)
+  if (typeof value === 'string' && isTemplate(value)) {
+    return value;
+  }
+
+  // Configured rules win over everything the name suggests
+  if (value === null || typeof value !== 'object') {
+    const ruled = generateFromRule(options, path);
+    if (ruled !== undefined) return ruled;
+  }
   
+  // Localized text: { "en": "...", "ar": "..." } under "name" gets a name in each language
+  if (isLocalizedObject(value)) {
+    return generateLocalizedText(lowerKey, value, faker);
+  }
+
   // Handle nested objects
   if (value !== null && typeof value === 'object') {
-    return generateFakeData(value);
+    return generateFakeData(value, options, path);
   }
 
   // String field inference
   if (typeof value === 'string') {
-    // IDs
+    const text = textFaker(options.locale, faker);
+
+    // Documented formats: dates stay dates, UUIDs stay UUIDs, "pending" under "status" stays
+    const format = detectFormat(value, key);
+    if (format) {
+      return generateFormatted(format, value, text);
+    }
+
+    // IDs documented as strings stay strings
     if (lowerKey.includes('id') && !lowerKey.includes('title')) {
-      return faker.number.int({ min: 1, max: 1000 });
+      return String(faker.number.int({ min: 1, max: 1000 }));
     }
     
     // Names and titles
     if (lowerKey.includes('name') || lowerKey.includes('title')) {
       if (lowerKey.includes('company') || lowerKey.includes('store')) {
-        return faker.company.name();
+        return text.company.name();
       }
       if (lowerKey.includes('category')) {
-        return faker.commerce.department();
+        return text.commerce.department();
       }
       if (lowerKey.includes('product')) {
-        return faker.commerce.productName();
+        return text.commerce.productName();
       }
-      return faker.lorem.words(2);
+      return text.lorem.words(2);
     }
     
     // Email
@@ -82,19 +174,17 @@ function generateFakeDataForField(key: string, value: unknown): unknown {
     
     // Descriptions
     if (lowerKey.includes('description') || lowerKey.includes('desc')) {
-      return faker.lorem.sentence();
+      return text.lorem.sentence();
     }
     
-    // Language codes
-    if (lowerKey === 'en' || lowerKey === 'english') {
-      return faker.lorem.words(2);
-    }
-    if (lowerKey === 'ar' || lowerKey === 'arabic') {
-      return 'عربي'; // Generic Arabic text
+    // Language codes outside a localized object ({ "ar": "..." } alone)
+    const locale = resolveLocale(lowerKey);
+    if (locale) {
+      return textFaker(locale, faker).lorem.words(2);
     }
     
     // Default string
-    return faker.lorem.word();
+    return text.lorem.word();
   }
 
   // Number field inference
@@ -128,9 +218,12 @@ function generateFakeDataForField(key: string, value: unknown): unknown {
 /**
  * Generates a primitive fake value based on type
  */
-function generatePrimitiveValue(value: unknown): unknown {
+function generatePrimitiveValue(value: unknown, options: GenerateOptions, key: string): unknown {
+  const faker = fakerOf(options);
   if (typeof value === 'string') {
-    return faker.lorem.word();
+    const text = textFaker(options.locale, faker);
+    const format = detectFormat(value, key);
+    return format ? generateFormatted(format, value, text) : text.lorem.word();
   }
   if (typeof value === 'number') {
     return faker.number.int({ min: 1, max: 100 });
@@ -140,3 +233,59 @@ function generatePrimitiveValue(value: unknown): unknown {
   }
   return value;
 }
+
+/**
+ * Value from the configured rule for a field path, or undefined without one
+ */
+function generateFromRule(options: GenerateOptions, path: string[]): unknown {
+  const rule = options.rules && path.length > 0 ? findRule(options.rules, options.scope, path) : null;
+  return rule ? applyRule(rule, textFaker(options.locale, fakerOf(options))) : undefined;
+}
+
+function fakerOf(options: GenerateOptions): Faker {
+  return options.faker ?? (defaultFaker ??= createFaker());
+}
+
+/**
+ * Faker for text in a locale. Other locales are seeded from the main faker,
+ * so seeded runs stay reproducible.
+ */
+function textFaker(locale: string | undefined, faker: Faker): Faker {
+  if (!locale || resolveLocale(locale) === DEFAULT_LOCALE) {
+    return faker;
+  }
+  const localeFaker = fakerFor(locale, faker);
+  localeFaker.seed(faker.number.int());
+  return localeFaker;
+}
+
+/**
+ * One text per language of a localized object. Every language draws from the
+ * same seed, and lorem text keeps the word count of the documented sample,
+ * so the translations are about as long as each other.
+ */
+function generateLocalizedText(lowerKey: string, template: Record<string, string>, faker: Faker): Record<string, string> {
+  const seed = faker.number.int();
+  const sample = template.en ?? Object.values(template)[0];
+  const words = Math.max(1, sample.trim().split(/\s+/).filter(Boolean).length);
+
+  const result: Record<string, string> = {};
+  for (const code of Object.keys(template)) {
+    const localeFaker = fakerFor(code, faker);
+    localeFaker.seed(seed);
+    result[code] = generateText(localeFaker, lowerKey, words);
+  }
+  return result;
+}
+
+function generateText(text: Faker, lowerKey: string, words: number): string {
+  if (lowerKey.includes('name') || lowerKey.includes('title')) {
+    if (lowerKey.includes('company') || lowerKey.includes('store')) return text.company.name();
+    if (lowerKey.includes('category')) return text.commerce.department();
+    if (lowerKey.includes('product')) return text.commerce.productName();
+  }
+  if (lowerKey.includes('description') || lowerKey.includes('desc')) {
+    return text.lorem.sentence(Math.max(words, 3));
+  }
+  return text.lorem.words(words);
+}
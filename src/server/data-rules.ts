@@ -0,0 +1,289 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { Faker } from '@faker-js/faker';
+import { faker } from '@faker-js/faker/locale/en';
+import { parse as parseYAML } from 'yaml';
+import { matchesGlob, normalizePath } from './scenarios';
+
+/**
+ * Field rules from mockmock.config.json / .yaml, for fields the name-based
+ * heuristics get wrong:
+ *
+ *   {
+ *     "fields": {
+ *       "phone": "phone.number",                                   faker method
+ *       "full_name": "{{person.firstName}} {{person.lastName}}",   template
+ *       "*_at": { "faker": "date.recent", "args": [{ "days": 30 }] },
+ *       "currency": { "enum": ["USD", "EUR"], "weights": [3, 1] },
+ *       "lat": { "min": -90, "max": 90, "precision": 6 },
+ *       "sku": { "pattern": "[A-Z]{3}-\\d{4}" },
+ *       "address.country": { "value": "SA" }
+ *     },
+ *     "endpoints": {
+ *       "GET /api/orders": { "status": { "enum": { "paid": 5, "pending": 1 } } }
+ *     }
+ *   }
+ *
+ * Selectors are field names or dotted paths ending at the field, with "*"
+ * globs. Endpoint rules win over global ones, longer selectors over shorter,
+ * exact names over globs.
+ */
+
+export const CONFIG_FILE_NAMES = ['mockmock.config.json', 'mockmock.config.yaml', 'mockmock.config.yml'];
+
+export type FieldRule =
+  | { kind: 'faker'; method: string; args: unknown[] }
+  | { kind: 'template'; template: string }
+  | { kind: 'value'; value: unknown }
+  | { kind: 'enum'; values: unknown[]; weights: number[] }
+  | { kind: 'range'; min: number; max: number; precision?: number }
+  | { kind: 'dateRange'; from: string; to: string }
+  | { kind: 'pattern'; pattern: string };
+
+interface SelectorRule {
+  /** Dotted selector split into lower-cased segments, e.g. ["address", "city"] */
+  segments: string[];
+  rule: FieldRule;
+}
+
+interface EndpointRules {
+  method: string;
+  path: string;
+  rules: SelectorRule[];
+}
+
+export interface DataRules {
+  fields: SelectorRule[];
+  endpoints: EndpointRules[];
+}
+
+/** Which endpoint data is generated for; collection records count as GET */
+export interface RuleScope {
+  method: string;
+  path: string;
+}
+
+const RULE_KEYS = ['faker', 'args', 'template', 'value', 'enum', 'weights', 'min', 'max', 'precision', 'pattern'];
+const FAKER_METHOD = /^[a-z]+\.[a-zA-Z]+$/;
+
+/** The first mockmock.config.* file in a directory, if any */
+export function findConfigFile(dir: string): string | null {
+  return CONFIG_FILE_NAMES.map(name => join(dir, name)).find(file => existsSync(file)) ?? null;
+}
+
+export function loadDataRules(file: string): DataRules {
+  const content = readFileSync(file, 'utf-8');
+  return parseDataRules(file.endsWith('.json') ? JSON.parse(content) : parseYAML(content));
+}
+
+/**
+ * Validates a config object, including that the faker methods it names exist
+ */
+export function parseDataRules(input: unknown): DataRules {
+  if (!isPlainObject(input)) throw new Error('Expected an object with "fields" and/or "endpoints"');
+  const { fields = {}, endpoints = {}, ...unknown } = input;
+
+  const unknownKeys = Object.keys(unknown);
+  if (unknownKeys.length > 0) {
+    throw new Error(`Unknown config key(s): ${unknownKeys.join(', ')}`);
+  }
+  if (!isPlainObject(fields)) throw new Error('"fields" must map field names or paths to rules');
+  if (!isPlainObject(endpoints)) throw new Error('"endpoints" must map "METHOD /path" to field rules');
+
+  return {
+    fields: parseSelectorRules(fields, 'fields'),
+    endpoints: Object.entries(endpoints).map(([target, rules]) => {
+      const match = target.trim().match(/^(?:([A-Za-z]+|\*)\s+)?(\/\S*)$/);
+      if (!match) throw new Error(`endpoints: "${target}" must look like "GET /api/orders" or "/api/orders/**"`);
+      if (!isPlainObject(rules)) throw new Error(`endpoints.${target} must map field names or paths to rules`);
+      return {
+        method: (match[1] ?? '*').toUpperCase(),
+        // {id} and :id stand for any segment, since records are generated for real paths
+        path: normalizePath(match[2]).replace(/:[^/]+/g, '*'),
+        rules: parseSelectorRules(rules, `endpoints.${target}`),
+      };
+    }),
+  };
+}
+
+/**
+ * The rule for a field, given its path from the generated value's root
+ * (array levels skipped, e.g. ["data", "address", "city"])
+ */
+export function findRule(rules: DataRules, scope: RuleScope | undefined, path: string[]): FieldRule | null {
+  const lowerPath = path.map(segment => segment.toLowerCase());
+  const endpointRules = scope
+    ? rules.endpoints
+      .filter(e => (e.method === '*' || e.method === scope.method) && matchesGlob(e.path, scope.path))
+      .flatMap(e => e.rules)
+    : [];
+
+  return bestMatch(endpointRules, lowerPath) ?? bestMatch(rules.fields, lowerPath);
+}
+
+/**
+ * Generates a value for a rule with the faker of the text locale; dates
+ * come out as ISO strings
+ */
+export function applyRule(rule: FieldRule, text: Faker): unknown {
+  switch (rule.kind) {
+    case 'value':
+      return rule.value;
+    case 'template':
+      return text.helpers.fake(rule.template);
+    case 'enum':
+      return text.helpers.weightedArrayElement(rule.values.map((value, i) => ({ value, weight: rule.weights[i] })));
+    case 'range':
+      return rule.precision === undefined && Number.isInteger(rule.min) && Number.isInteger(rule.max)
+        ? text.number.int({ min: rule.min, max: rule.max })
+        : text.number.float({ min: rule.min, max: rule.max, fractionDigits: rule.precision ?? 2 });
+    case 'dateRange':
+      return text.date.between({ from: rule.from, to: rule.to }).toISOString();
+    case 'pattern':
+      return text.helpers.fromRegExp(rule.pattern);
+    case 'faker': {
+      const [module, method] = rule.method.split('.');
+      const target = (text as unknown as Record<string, Record<string, (...args: unknown[]) => unknown>>)[module];
+      const value = target[method](...rule.args);
+      return value instanceof Date ? value.toISOString() : value;
+    }
+  }
+}
+
+function bestMatch(rules: SelectorRule[], path: string[]): FieldRule | null {
+  let best: SelectorRule | null = null;
+  for (const candidate of rules) {
+    if (!matchesSelector(candidate.segments, path)) continue;
+    if (!best || specificity(candidate) > specificity(best)) best = candidate;
+  }
+  return best?.rule ?? null;
+}
+
+/** Longer selectors first, then fewer globs */
+function specificity(rule: SelectorRule): number {
+  return rule.segments.length * 100 - rule.segments.filter(s => s.includes('*')).length;
+}
+
+/** "address.city" matches any path ending in address → city */
+function matchesSelector(segments: string[], path: string[]): boolean {
+  if (segments.length > path.length) return false;
+  const tail = path.slice(path.length - segments.length);
+  return segments.every((segment, i) => matchesGlob(segment, tail[i]));
+}
+
+function parseSelectorRules(input: Record<string, unknown>, location: string): SelectorRule[] {
+  return Object.entries(input).map(([selector, rule]) => {
+    const segments = selector.toLowerCase().split('.').filter(Boolean);
+    if (segments.length === 0) throw new Error(`${location}: empty field selector`);
+    return { segments, rule: parseRule(rule, `${location}.${selector}`) };
+  });
+}
+
+function parseRule(input: unknown, location: string): FieldRule {
+  // "phone.number" or "{{person.firstName}} {{person.lastName}}"
+  if (typeof input === 'string') {
+    if (input.includes('{{')) return { kind: 'template', template: checkTemplate(input, location) };
+    if (FAKER_METHOD.test(input)) return { kind: 'faker', method: checkFakerMethod(input, location), args: [] };
+    throw new Error(`${location}: "${input}" is neither a faker method nor a {{template}}; use { "value": "${input}" } for fixed text`);
+  }
+  if (!isPlainObject(input)) {
+    return { kind: 'value', value: input };
+  }
+
+  const unknownKeys = Object.keys(input).filter(key => !RULE_KEYS.includes(key));
+  if (unknownKeys.length > 0) {
+    throw new Error(`${location}: unknown rule key(s) ${unknownKeys.join(', ')}`);
+  }
+
+  if ('value' in input) return { kind: 'value', value: input.value };
+
+  if (input.faker !== undefined) {
+    if (typeof input.faker !== 'string') throw new Error(`${location}: faker must be a method name such as "phone.number"`);
+    const args = input.args === undefined ? [] : Array.isArray(input.args) ? input.args : [input.args];
+    return { kind: 'faker', method: checkFakerMethod(input.faker, location), args };
+  }
+
+  if (input.template !== undefined) {
+    if (typeof input.template !== 'string') throw new Error(`${location}: template must be a string`);
+    return { kind: 'template', template: checkTemplate(input.template, location) };
+  }
+
+  if (input.enum !== undefined) return parseEnum(input.enum, input.weights, location);
+
+  if (input.pattern !== undefined) {
+    if (typeof input.pattern !== 'string') throw new Error(`${location}: pattern must be a regular expression string`);
+    return { kind: 'pattern', pattern: toFakerPattern(input.pattern) };
+  }
+
+  if (input.min !== undefined || input.max !== undefined) return parseRange(input, location);
+
+  throw new Error(`${location}: expected one of faker, template, value, enum, min/max or pattern`);
+}
+
+/** ["a", "b"] with optional weights, or { "a": 5, "b": 1 } */
+function parseEnum(values: unknown, weights: unknown, location: string): FieldRule {
+  if (isPlainObject(values)) {
+    return parseEnum(Object.keys(values), Object.values(values), location);
+  }
+  if (!Array.isArray(values) || values.length === 0) {
+    throw new Error(`${location}: enum must be a non-empty array, or an object of value → weight`);
+  }
+  if (weights === undefined) return { kind: 'enum', values, weights: values.map(() => 1) };
+  if (!Array.isArray(weights) || weights.length !== values.length
+    || !weights.every(w => typeof w === 'number' && w > 0)) {
+    throw new Error(`${location}: weights must be positive numbers, one per enum value`);
+  }
+  return { kind: 'enum', values, weights };
+}
+
+/** Numbers, or dates as ISO strings */
+function parseRange(input: Record<string, unknown>, location: string): FieldRule {
+  const { min, max, precision } = input;
+  if (typeof min === 'string' || typeof max === 'string') {
+    const from = typeof min === 'string' ? Date.parse(min) : NaN;
+    const to = typeof max === 'string' ? Date.parse(max) : NaN;
+    if (isNaN(from) || isNaN(to) || from > to) {
+      throw new Error(`${location}: a date range needs min and max dates, min first`);
+    }
+    return { kind: 'dateRange', from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+  }
+  if (typeof min !== 'number' || typeof max !== 'number' || min > max) {
+    throw new Error(`${location}: a range needs numbers min and max, min first`);
+  }
+  if (precision !== undefined && (!Number.isInteger(precision) || (precision as number) < 0)) {
+    throw new Error(`${location}: precision must be a non-negative integer`);
+  }
+  return { kind: 'range', min, max, ...(precision !== undefined && { precision: precision as number }) };
+}
+
+function checkFakerMethod(method: string, location: string): string {
+  const [module, name] = method.split('.');
+  const target = (faker as unknown as Record<string, Record<string, unknown> | undefined>)[module];
+  if (!FAKER_METHOD.test(method) || typeof target?.[name] !== 'function') {
+    throw new Error(`${location}: unknown faker method "${method}"`);
+  }
+  return method;
+}
+
+function checkTemplate(template: string, location: string): string {
+  for (const [, expression] of template.matchAll(/\{\{\s*([^}(\s]+)/g)) {
+    checkFakerMethod(expression, location);
+  }
+  return template;
+}
+
+/** faker's fromRegExp knows character classes but not \d, \w and \s */
+function toFakerPattern(pattern: string): string {
+  const classes: Record<string, string> = { d: '0-9', w: 'a-zA-Z0-9_', s: ' ' };
+  let inClass = false;
+  return pattern.replace(/\\([dws])|\\.|\[|\]/g, (token, shorthand: string | undefined) => {
+    if (shorthand) return inClass ? classes[shorthand] : `[${classes[shorthand]}]`;
+    if (token === '[') inClass = true;
+    if (token === ']') inClass = false;
+    return token;
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
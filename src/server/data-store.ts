@@ -1,49 +1,401 @@
-import { faker } from '@faker-js/faker';
-import { generateFakeData } from './data-generator';
+import { Faker } from '@faker-js/faker';
+import { generateFakeData, GenerateOptions, resetSeed, withSeed } from './data-generator';
+import { createFaker } from './locales';
+import { findRule, RuleScope } from './data-rules';
 import { MockEndpoint } from '../parser/schema-types';
+import { fillPaginationMeta, PaginationConfig, queryItems, QueryParams } from './collection-query';
+import {
+  findForeignKeyTarget,
+  linkToParent,
+  namesResource,
+  parseCountField,
+  parseForeignKeyField,
+} from './relations';
 
-interface Collection {
+export interface CollectionReloadResult {
+  kept: string[];
+  regenerated: string[];
+  removed: string[];
+}
+
+export interface Collection {
   items: Record<string, unknown>[];
   template: unknown;
   /** When the response is wrapped (e.g. { errors: false, data: [...] }), store the wrapper and the key that holds the array */
   wrapper?: { shell: Record<string, unknown>; arrayKey: string };
 }
 
+/**
+ * Serialized form of the store, as written to --data-file
+ */
+export interface DataStoreState {
+  version: number;
+  seed: number | null;
+  savedAt: string;
+  collections: Record<string, Collection>;
+}
+
+/** Version 1 keyed collections by their last path segment ("items") */
+const STATE_VERSION = 2;
+
+/** Replaces path parameters in collection patterns (":id" and "{id}" segments) */
+const PARAM_WILDCARD = '{}';
+
+/** Upper bound when a parent's count field decides the size of a sub-collection */
+const MAX_SUB_COLLECTION_SIZE = 100;
+
+/**
+ * Where a collection's records come from: the first documented GET-array
+ * endpoint for a resource path
+ */
+interface CollectionTemplate {
+  templateItem: unknown;
+  /** Every documented record, served as written in literal mode */
+  samples: unknown[];
+  wrapper?: { shell: Record<string, unknown>; arrayKey: string };
+}
+
+export interface DeleteOptions {
+  /** Also drop the sub-collections scoped to the deleted item (e.g. /orders/5/items) */
+  cascade?: boolean;
+}
+
 /**
  * In-memory store that generates data once per server run.
  * Provides stateful GET / POST / PUT / PATCH / DELETE semantics.
+ *
+ * Collections are keyed by resource path. Top-level collections (/api/orders)
+ * are generated up front; sub-collections (/api/orders/5/items) are scoped to
+ * their parent id and generated on first use from the pattern's template.
+ * Foreign keys point at records that exist and count fields follow the
+ * related records (see relations.ts).
  */
 export class DataStore {
   private collections: Map<string, Collection> = new Map();
+  private templates: Map<string, CollectionTemplate> = new Map();
+  private changeListeners: Array<() => void> = [];
+  private generateOptions: GenerateOptions;
+  /** Generates this store's data; seeding it leaves other stores alone */
+  readonly faker: Faker;
+
+  /**
+   * @param seed When set, every collection and created item is reproducible
+   * @param generateOptions Locale of generated text, mockmock.config field
+   *   rules, and literal mode (documented records as written, without linking)
+   */
+  constructor(private seed: number | null = null, generateOptions: GenerateOptions = {}) {
+    this.faker = generateOptions.faker ?? createFaker();
+    this.generateOptions = { ...generateOptions, faker: this.faker };
+  }
+
+  getSeed(): number | null {
+    return this.seed;
+  }
+
+  /**
+   * Changes the seed and regenerates every collection from the schema,
+   * discarding in-memory changes.
+   */
+  reseed(seed: number | null, schema: MockEndpoint[]): void {
+    this.seed = seed;
+    if (seed === null) resetSeed(this.faker);
+    this.reset(schema);
+  }
+
+  /**
+   * Throws away all records and regenerates the collections from the schema
+   */
+  reset(schema: MockEndpoint[]): void {
+    this.collections = new Map();
+    this.initFromSchema(schema);
+    this.notifyChange();
+  }
+
+  /**
+   * Registers a callback fired after every mutation (used for persistence)
+   */
+  onChange(listener: () => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  toState(): DataStoreState {
+    return {
+      version: STATE_VERSION,
+      seed: this.seed,
+      savedAt: new Date().toISOString(),
+      collections: Object.fromEntries(this.collections),
+    };
+  }
+
+  /**
+   * Replaces the collections present in the state; collections the state
+   * does not mention keep their current records. Returns the loaded keys.
+   */
+  loadState(state: DataStoreState): string[] {
+    if (!state || typeof state.collections !== 'object' || state.collections === null) {
+      throw new Error('Invalid state: expected a "collections" object');
+    }
+    const keys: string[] = [];
+    for (const [storedKey, collection] of Object.entries(state.collections)) {
+      if (!collection || !Array.isArray(collection.items)) {
+        throw new Error(`Invalid state: collection "${storedKey}" has no "items" array`);
+      }
+      const key = state.version === 1 ? this.migrateLegacyKey(storedKey) : storedKey;
+      this.collections.set(key, collection);
+      keys.push(key);
+    }
+    this.refreshCounts();
+    this.notifyChange();
+    return keys;
+  }
+
+  /**
+   * Maps a version 1 key ("orders") to the top-level resource path that
+   * ends in it, when exactly one does.
+   */
+  private migrateLegacyKey(key: string): string {
+    const candidates = [...this.templates.keys()].filter(
+      pattern => !isScopedPattern(pattern) && pattern.split('/').pop() === key,
+    );
+    return candidates.length === 1 ? candidates[0] : key;
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
 
   /**
    * Scan the schema for GET-array endpoints and pre-generate 15-30 records
-   * for each discovered collection. Called once on server start.
+   * for each top-level collection. Called once on server start.
    */
   initFromSchema(schema: MockEndpoint[]): void {
-    for (const endpoint of schema) {
-      if (endpoint.method !== 'GET') continue;
+    this.templates = collectTemplates(schema);
+    const generated: string[] = [];
+    for (const [key, template] of this.templates) {
+      if (isScopedPattern(key) || this.collections.has(key)) continue;
+      this.collections.set(key, generateCollection(this.seed, this.generateOptions, key, template));
+      generated.push(key);
+    }
+    // Link once every collection exists, so foreign keys can point at any of them
+    for (const key of generated) {
+      this.linkForeignKeys(key, this.collections.get(key)!.items, `links:${key}`);
+    }
+    this.refreshCounts();
+  }
 
-      const key = extractCollectionKey(endpoint.path);
+  /**
+   * Re-derives collections after the schema changed (hot reload).
+   * Collections whose template and wrapper are unchanged keep their records;
+   * the rest are regenerated (sub-collections lazily, on next use).
+   * Collections that only exist because of a POST are kept while some
+   * endpoint still maps to them.
+   */
+  reloadFromSchema(schema: MockEndpoint[]): CollectionReloadResult {
+    const previous = this.collections;
+    const result: CollectionReloadResult = { kept: [], regenerated: [], removed: [] };
+    const generated: string[] = [];
+    this.templates = collectTemplates(schema);
+    this.collections = new Map();
+
+    for (const [key, template] of this.templates) {
+      if (isScopedPattern(key)) continue;
+
+      const existing = previous.get(key);
+      if (existing && matchesTemplate(existing, template)) {
+        this.collections.set(key, existing);
+        result.kept.push(key);
+      } else {
+        this.collections.set(key, generateCollection(this.seed, this.generateOptions, key, template));
+        result.regenerated.push(key);
+        generated.push(key);
+      }
+    }
+
+    const patterns = schema.map(ep => extractCollectionKey(ep.path));
+    for (const [key, collection] of previous) {
       if (this.collections.has(key)) continue;
 
-      const arrayInfo = findArrayInResponse(endpoint.response);
-      if (!arrayInfo) continue;
+      const template = this.findTemplate(key);
+      if (template && !matchesTemplate(collection, template)) {
+        result.regenerated.push(key);
+      } else if (template || patterns.some(pattern => matchesPattern(key, pattern))) {
+        this.collections.set(key, collection);
+        result.kept.push(key);
+      } else {
+        result.removed.push(key);
+      }
+    }
+
+    for (const key of generated) {
+      this.linkForeignKeys(key, this.collections.get(key)!.items, `links:${key}`);
+    }
+    this.refreshCounts();
+    this.notifyChange();
+    return result;
+  }
+
+  private findTemplate(key: string): CollectionTemplate | undefined {
+    const pattern = this.findPattern(key);
+    return pattern === undefined ? undefined : this.templates.get(pattern);
+  }
+
+  private findPattern(key: string): string | undefined {
+    return [...this.templates.keys()].find(pattern => matchesPattern(key, pattern));
+  }
+
+  /**
+   * The parent record a sub-collection is scoped to ("/orders/5" for
+   * /orders/5/items) when the parent collection is known but has no such
+   * record; null otherwise.
+   *
+   * @param pattern Resource path of the sub-collection, e.g. /orders/:orderId/items
+   */
+  missingParent(key: string, pattern: string): string | null {
+    const segments = splitPath(key);
+    const patternSegments = splitPath(pattern);
+    const index = patternSegments.map(isParamSegment).lastIndexOf(true);
+    if (index < 1 || segments.length !== patternSegments.length) return null;
+
+    const parentKey = '/' + segments.slice(0, index).join('/');
+    if (!this.collections.has(parentKey) && !this.findTemplate(parentKey)) return null;
+    const id = segments[index];
+    return this.resolve(parentKey)?.items.some(item => matchesId(item, id)) ? null : `${parentKey}/${id}`;
+  }
+
+  /**
+   * Returns the collection, generating a parent-scoped sub-collection from
+   * its template the first time it is requested. Ids of parents that do not
+   * exist get no sub-collection, so stray ids cannot grow the store.
+   */
+  private resolve(key: string): Collection | undefined {
+    const existing = this.collections.get(key);
+    if (existing) return existing;
+
+    const pattern = this.findPattern(key);
+    if (pattern === undefined || this.missingParent(key, pattern)) return undefined;
+    const template = this.templates.get(pattern)!;
+
+    const col = generateCollection(this.seed, this.generateOptions, key, template, this.sizeFromParent(key));
+    this.collections.set(key, col);
+    this.linkForeignKeys(key, col.items, `links:${key}`);
+    return col;
+  }
+
+  /**
+   * Size of a sub-collection as announced by its parent, e.g. the
+   * linked_categories_count of mother category 5 for
+   * /mother-categories/5/linkedCategories
+   */
+  private sizeFromParent(key: string): number | undefined {
+    const segments = splitPath(key);
+    if (segments.length < 3) return undefined;
+    const parentKey = '/' + segments.slice(0, -2).join('/');
+    const parent = this.collections.get(parentKey)?.items.find(item => matchesId(item, segments[segments.length - 2]));
+    if (!parent) return undefined;
+
+    const resource = segments[segments.length - 1];
+    for (const [field, value] of Object.entries(parent)) {
+      const base = parseCountField(field);
+      if (base && typeof value === 'number' && namesResource(base, resource)) {
+        return Math.min(Math.max(0, Math.floor(value)), MAX_SUB_COLLECTION_SIZE);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Top-level collections that foreign keys may point at
+   */
+  private foreignKeyTargets(): string[] {
+    return [...this.templates.keys()].filter(key => !isScopedPattern(key) && this.collections.has(key));
+  }
+
+  /**
+   * Replaces generated foreign keys (category_id, tag_ids, ...) with ids of
+   * records that exist in the referenced collection. Parent links of
+   * sub-collections, null values and fields with a configured rule are left alone.
+   */
+  private linkForeignKeys(key: string, items: Record<string, unknown>[], scope: string): void {
+    if (this.generateOptions.literal) return;
+    const targets = this.foreignKeyTargets();
+    const { rules } = this.generateOptions;
+    withSeed(this.faker, this.seed, scope, () => {
+      for (const item of items) {
+        const idField = findIdField(item);
+        const parentLinks = linkToParent(item, key);
+        for (const [field, value] of Object.entries(item)) {
+          if (field === idField || field in parentLinks || value === null) continue;
+          const foreignKey = parseForeignKeyField(field);
+          if (!foreignKey || (rules && findRule(rules, collectionScope(key), [field]))) continue;
+
+          const target = findForeignKeyTarget(foreignKey.base, key, targets);
+          const related = target === key ? items : target ? this.collections.get(target)?.items : undefined;
+          // A record is never its own parent
+          const ids = (related ?? []).map(idOf).filter(id => id !== undefined && (target !== key || id !== idOf(item)));
+          if (ids.length === 0) continue;
 
-      const { templateItem, wrapper } = arrayInfo;
-      const count = faker.number.int({ min: 15, max: 30 });
-      const items = Array.from({ length: count }, (_, i) => {
-        const item = generateFakeData(templateItem) as Record<string, unknown>;
-        const idField = findIdField(item) ?? 'id';
-        item[idField] = i + 1;
-        return item;
-      });
-      this.collections.set(key, { items, template: templateItem, wrapper });
+          item[field] = foreignKey.many
+            ? this.faker.helpers.arrayElements(ids, { min: 1, max: Math.min(3, ids.length) })
+            : this.faker.helpers.arrayElement(ids);
+        }
+      }
+    });
+  }
+
+  /**
+   * Sets count fields (linked_categories_count, productsCount, ...) to the
+   * number of related records, where the relation can be found
+   */
+  private refreshCounts(): void {
+    if (this.generateOptions.literal) return;
+    const targets = this.foreignKeyTargets();
+    for (const [key, col] of this.collections) {
+      for (const item of col.items) {
+        for (const [field, value] of Object.entries(item)) {
+          const base = parseCountField(field);
+          if (!base || typeof value !== 'number') continue;
+          const count = this.countRelated(key, idOf(item), base, targets);
+          if (count !== null) item[field] = count;
+        }
+      }
     }
   }
 
+  private countRelated(key: string, id: unknown, base: string, targets: string[]): number | null {
+    if (id === undefined) return null;
+
+    // A sub-collection of the item: /mother-categories/5/linkedCategories
+    for (const pattern of this.templates.keys()) {
+      const resource = splitPath(pattern).pop() ?? '';
+      const childKey = `${key}/${id}/${resource}`;
+      if (!namesResource(base, resource) || !matchesPattern(childKey, pattern)) continue;
+      const child = this.collections.get(childKey);
+      // Not generated yet; it will be sized from this count when it is
+      return child ? child.items.length : null;
+    }
+
+    // Records of another collection that reference the item: products_count → products.category_id
+    const source = targets.find(target => target !== key && namesResource(base, splitPath(target).pop() ?? ''));
+    const sourceItems = source ? this.collections.get(source)?.items ?? [] : [];
+    const sample = sourceItems[0];
+    if (!source || !sample) return null;
+
+    const referencingField = Object.keys(sample).find(field => {
+      const foreignKey = parseForeignKeyField(field);
+      return foreignKey !== null && findForeignKeyTarget(foreignKey.base, source, targets) === key;
+    });
+    if (!referencingField) return null;
+
+    return sourceItems.filter(other => {
+      const ref = other[referencingField];
+      return Array.isArray(ref) ? ref.some(r => String(r) === String(id)) : String(ref) === String(id);
+    }).length;
+  }
+
   hasCollection(key: string): boolean {
-    return this.collections.has(key);
+    return this.resolve(key) !== undefined;
   }
 
   /**
@@ -51,7 +403,7 @@ export class DataStore {
    * if one existed, or as a plain array otherwise.
    */
   getCollection(key: string): unknown {
-    const col = this.collections.get(key);
+    const col = this.resolve(key);
     if (!col) return null;
     if (col.wrapper) {
       return { ...col.wrapper.shell, [col.wrapper.arrayKey]: col.items };
@@ -59,27 +411,49 @@ export class DataStore {
     return col.items;
   }
 
+  /**
+   * Like getCollection, but filtered, sorted and paginated by the request
+   * query. Pagination fields in the wrapper (total, current_page, meta,
+   * links, ...) are filled with real values.
+   */
+  queryCollection(
+    key: string,
+    query: QueryParams,
+    config: PaginationConfig,
+    pageUrl: (page: number) => string,
+  ): unknown {
+    const col = this.resolve(key);
+    if (!col) return null;
+    const result = queryItems(col.items, query, config);
+    if (col.wrapper) {
+      const shell = fillPaginationMeta(col.wrapper.shell, result, pageUrl);
+      return { ...shell, [col.wrapper.arrayKey]: result.items };
+    }
+    return result.items;
+  }
+
   /**
    * Wraps a single item in { errors: false, data: item } when the collection
    * uses that response structure (per ERD spec).
    */
   wrapItemIfNeeded(key: string, item: Record<string, unknown>): unknown {
-    const col = this.collections.get(key);
+    const col = this.resolve(key);
     if (!col?.wrapper) return item;
     return { ...col.wrapper.shell, [col.wrapper.arrayKey]: item };
   }
 
   getItem(key: string, id: string | number): Record<string, unknown> | null {
-    const col = this.collections.get(key);
+    const col = this.resolve(key);
     if (!col) return null;
     return col.items.find(item => matchesId(item, id)) ?? null;
   }
 
   addItem(key: string, body: Record<string, unknown>): Record<string, unknown> {
-    const col = this.collections.get(key);
+    const col = this.resolve(key);
     if (!col) {
-      const newItem: Record<string, unknown> = { id: 1, ...body };
+      const newItem: Record<string, unknown> = { id: 1, ...linkToParent(body, key), ...body };
       this.collections.set(key, { items: [newItem], template: body });
+      this.notifyChange();
       return newItem;
     }
     const maxId = col.items.reduce((max, item) => {
@@ -87,13 +461,18 @@ export class DataStore {
       const v = f ? Number(item[f]) : 0;
       return Math.max(max, isNaN(v) ? 0 : v);
     }, 0);
+    const generated = withSeed(this.faker, this.seed, `item:${key}:${maxId + 1}`, () => generateFakeData(col.template, { ...this.generateOptions, scope: collectionScope(key) })) as Record<string, unknown>;
+    this.linkForeignKeys(key, [generated], `links:${key}:${maxId + 1}`);
     const newItem = {
-      ...(generateFakeData(col.template) as Record<string, unknown>),
+      ...generated,
+      ...linkToParent(generated, key),
       ...body,
     };
     const idField = findIdField(newItem) ?? 'id';
-    newItem[idField] = maxId + 1;
+    newItem[idField] = sequentialId(generated[idField], maxId + 1);
     col.items.push(newItem);
+    this.refreshCounts();
+    this.notifyChange();
     return newItem;
   }
 
@@ -102,7 +481,7 @@ export class DataStore {
     id: string | number,
     updates: Record<string, unknown>,
   ): Record<string, unknown> | null {
-    const col = this.collections.get(key);
+    const col = this.resolve(key);
     if (!col) return null;
     const idx = col.items.findIndex(item => matchesId(item, id));
     if (idx === -1) return null;
@@ -110,37 +489,173 @@ export class DataStore {
     // Ensure the ID field stays intact
     const idField = findIdField(col.items[idx]) ?? 'id';
     col.items[idx][idField] = coerceId(id);
+    this.refreshCounts();
+    this.notifyChange();
     return col.items[idx];
   }
 
-  deleteItem(key: string, id: string | number): boolean {
-    const col = this.collections.get(key);
+  deleteItem(key: string, id: string | number, options: DeleteOptions = {}): boolean {
+    const col = this.resolve(key);
     if (!col) return false;
     const idx = col.items.findIndex(item => matchesId(item, id));
     if (idx === -1) return false;
     col.items.splice(idx, 1);
+    if (options.cascade) {
+      // Sub-collections of the item, at any depth: /orders/5/items, /orders/5/items/2/notes
+      const prefix = `${key}/${id}/`;
+      for (const childKey of [...this.collections.keys()]) {
+        if (childKey.startsWith(prefix)) this.collections.delete(childKey);
+      }
+    }
+    this.refreshCounts();
+    this.notifyChange();
     return true;
   }
 }
 
 /**
- * Derive a stable collection key from an endpoint path.
- * Returns the last non-parameter path segment.
+ * Template per resource path, from the first GET endpoint that returns an array
+ */
+function collectTemplates(schema: MockEndpoint[]): Map<string, CollectionTemplate> {
+  const templates = new Map<string, CollectionTemplate>();
+  for (const endpoint of schema) {
+    if (endpoint.method !== 'GET') continue;
+
+    const key = extractCollectionKey(endpoint.path);
+    if (templates.has(key)) continue;
+
+    const arrayInfo = findArrayInResponse(endpoint.response);
+    if (arrayInfo) templates.set(key, arrayInfo);
+  }
+  return templates;
+}
+
+function matchesTemplate(collection: Collection, template: CollectionTemplate): boolean {
+  return (
+    JSON.stringify(collection.template) === JSON.stringify(template.templateItem) &&
+    JSON.stringify(collection.wrapper) === JSON.stringify(template.wrapper)
+  );
+}
+
+/**
+ * Pre-generate 15-30 records (or `size`) from a template item, numbering ids from 1.
+ * Seeded per collection key so adding endpoints doesn't shift other collections.
+ * Records of a sub-collection point back at their parent when the template
+ * has a matching foreign key (order_id / orderId under /orders/5/items).
+ * In literal mode the collection holds the documented records as written.
+ */
+function generateCollection(
+  seed: number | null,
+  options: GenerateOptions,
+  key: string,
+  template: CollectionTemplate,
+  size?: number,
+): Collection {
+  if (options.literal) {
+    const items = template.samples.filter(isRecord).map(sample => JSON.parse(JSON.stringify(sample)));
+    return { items, template: template.templateItem, wrapper: template.wrapper };
+  }
+
+  const faker = options.faker ?? createFaker();
+  return withSeed(faker, seed, `collection:${key}`, () => {
+    const count = size ?? faker.number.int({ min: 15, max: 30 });
+    const items = Array.from({ length: count }, (_, i) => {
+      const generated = generateFakeData(template.templateItem, { ...options, scope: collectionScope(key) }) as Record<string, unknown>;
+      const item = { ...generated, ...linkToParent(generated, key) };
+      const idField = findIdField(item) ?? 'id';
+      item[idField] = sequentialId(item[idField], i + 1);
+      return item;
+    });
+    return { items, template: template.templateItem, wrapper: template.wrapper };
+  });
+}
+
+/**
+ * Numbers ids the way the template types them: 7, or "7" for numeric
+ * strings. UUIDs and codes such as "ord_8f3k2" keep their generated value.
+ */
+function sequentialId(generated: unknown, n: number): unknown {
+  if (typeof generated !== 'string') return n;
+  return /^\d+$/.test(generated) ? String(n) : generated;
+}
+
+/** Records are generated for the collection's GET endpoint, as far as data rules go */
+function collectionScope(key: string): RuleScope {
+  return { method: 'GET', path: key };
+}
+
+/**
+ * Derive a collection pattern from an endpoint path: every segment up to the
+ * last resource name, with path parameters replaced by "{}".
  * Examples:
- *   /api/users          → "users"
- *   /api/users/{id}     → "users"
- *   /api/users/:id      → "users"
- *   /api/users/:id/posts → "posts"
+ *   /api/users                → "/api/users"
+ *   /api/users/{id}           → "/api/users"
+ *   /api/users/:id            → "/api/users"
+ *   /api/users/:id/posts      → "/api/users/{}/posts"
+ *   /api/users/:id/posts/:pid → "/api/users/{}/posts"
  */
 export function extractCollectionKey(path: string): string {
-  const segments = path.replace(/^\//, '').split('/');
+  const segments = splitPath(path);
+  const end = lastResourceIndex(segments);
+  if (end === -1) return path;
+  return '/' + segments.slice(0, end + 1).map(seg => (isParamSegment(seg) ? PARAM_WILDCARD : seg)).join('/');
+}
+
+/**
+ * The collection a request addresses, with the parent ids filled in:
+ * /api/orders/:orderId/items/:id + { orderId: "5" } → "/api/orders/5/items"
+ */
+export function resolveCollectionKey(path: string, params: Record<string, string>): string {
+  const segments = splitPath(path);
+  const end = lastResourceIndex(segments);
+  if (end === -1) return path;
+  return '/' + segments
+    .slice(0, end + 1)
+    .map(seg => (isParamSegment(seg) ? params[paramName(seg)] ?? PARAM_WILDCARD : seg))
+    .join('/');
+}
+
+/**
+ * Name of the parameter that identifies an item of the collection, i.e. the
+ * one right after the last resource name (/orders/:orderId/items/:id → "id").
+ * Null for list endpoints such as /orders/:orderId/items.
+ */
+export function extractItemParam(path: string): string | null {
+  const segments = splitPath(path);
+  const next = segments[lastResourceIndex(segments) + 1];
+  return next !== undefined && isParamSegment(next) ? paramName(next) : null;
+}
+
+function matchesPattern(key: string, pattern: string): boolean {
+  const keySegments = splitPath(key);
+  const patternSegments = splitPath(pattern);
+  return (
+    keySegments.length === patternSegments.length &&
+    patternSegments.every((seg, i) => seg === PARAM_WILDCARD || seg === keySegments[i])
+  );
+}
+
+function isScopedPattern(key: string): boolean {
+  return splitPath(key).includes(PARAM_WILDCARD);
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function lastResourceIndex(segments: string[]): number {
   for (let i = segments.length - 1; i >= 0; i--) {
-    const seg = segments[i];
-    if (!seg.startsWith(':') && !seg.startsWith('{')) {
-      return seg;
-    }
+    if (!isParamSegment(segments[i])) return i;
   }
-  return path;
+  return -1;
+}
+
+function isParamSegment(segment: string): boolean {
+  return segment.startsWith(':') || segment.startsWith('{');
+}
+
+function paramName(segment: string): string {
+  return segment.replace(/^:/, '').replace(/^\{|\}$/g, '');
 }
 
 /**
@@ -148,11 +663,9 @@ export function extractCollectionKey(path: string): string {
  *   - Top-level array:      [{ id: 0, name: "" }]
  *   - Wrapped array:        { errors: false, data: [{ id: 0, name: "" }] }
  */
-function findArrayInResponse(
-  response: unknown,
-): { templateItem: unknown; wrapper?: { shell: Record<string, unknown>; arrayKey: string } } | null {
+function findArrayInResponse(response: unknown): CollectionTemplate | null {
   if (Array.isArray(response) && response.length > 0) {
-    return { templateItem: response[0] };
+    return { templateItem: response[0], samples: response };
   }
 
   if (response && typeof response === 'object' && !Array.isArray(response)) {
@@ -163,7 +676,7 @@ function findArrayInResponse(
         for (const [sk, sv] of Object.entries(obj)) {
           if (sk !== k) shell[sk] = sv;
         }
-        return { templateItem: v[0], wrapper: { shell, arrayKey: k } };
+        return { templateItem: v[0], samples: v, wrapper: { shell, arrayKey: k } };
       }
     }
   }
@@ -179,6 +692,15 @@ function findIdField(item: Record<string, unknown>): string | null {
   return key ?? null;
 }
 
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function idOf(item: Record<string, unknown>): unknown {
+  const field = findIdField(item);
+  return field ? item[field] : undefined;
+}
+
 function matchesId(item: Record<string, unknown>, id: string | number): boolean {
   const field = findIdField(item);
   if (!field) return false;
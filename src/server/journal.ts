@@ -0,0 +1,262 @@
+import { Request, Response } from 'express';
+import { matchesGlob, normalizePath } from './scenarios';
+
+/**
+ * Bounded in-memory log of the requests the mock answered, so end-to-end
+ * tests can assert on the calls a frontend made:
+ *
+ *   GET    /_journal?method=POST&path=/api/orders   filtered entries, newest last
+ *   DELETE /_journal                                 clear it between tests
+ *   POST   /_journal/verify                          "POST /api/orders with { status: 'paid' }, 2 times"
+ */
+
+/** Who answered the request */
+export type JournalSource = 'mock' | 'replay' | 'proxy' | 'unmatched';
+
+export interface JournalEntry {
+  /** Increases by one per request, also across clears */
+  id: number;
+  timestamp: string;
+  method: string;
+  path: string;
+  url: string;
+  params: Record<string, string>;
+  query: Record<string, unknown>;
+  headers: Record<string, string>;
+  body: unknown;
+  /** Documented endpoint that matched, e.g. "GET /api/orders/:id" */
+  endpoint: string | null;
+  source: JournalSource;
+  /** null when the connection was closed without a response */
+  status: number | null;
+  durationMs: number | null;
+}
+
+/**
+ * What an entry must have to match. Body, query and headers are partial:
+ * only the given fields are compared, nested objects included.
+ */
+export interface JournalCriteria {
+  method?: string;
+  /** Route or request path; "*" and "**" globs as in scenarios */
+  path?: string;
+  status?: number;
+  source?: JournalSource;
+  body?: unknown;
+  query?: Record<string, unknown>;
+  headers?: Record<string, unknown>;
+}
+
+export interface JournalVerification {
+  verified: boolean;
+  matched: number;
+  expected: { times?: number; atLeast?: number; atMost?: number };
+  requests: JournalEntry[];
+}
+
+export const DEFAULT_JOURNAL_SIZE = 1000;
+
+const SOURCES: JournalSource[] = ['mock', 'replay', 'proxy', 'unmatched'];
+
+export class RequestJournal {
+  private entries: JournalEntry[] = [];
+  private nextId = 1;
+
+  /** maxEntries of 0 disables the journal */
+  constructor(private maxEntries: number = DEFAULT_JOURNAL_SIZE) {}
+
+  isEnabled(): boolean {
+    return this.maxEntries > 0;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Adds the request now and fills in status and timing once the response
+   * has been sent (or the connection closed).
+   */
+  track(req: Request, res: Response, source: JournalSource, endpoint: string | null = null): void {
+    if (!this.isEnabled()) return;
+
+    const startedAt = Date.now();
+    const entry: JournalEntry = {
+      id: this.nextId++,
+      timestamp: new Date(startedAt).toISOString(),
+      method: req.method,
+      path: req.path,
+      url: req.originalUrl,
+      params: { ...req.params },
+      query: { ...req.query },
+      headers: flattenHeaders(req.headers),
+      body: hasBody(req.body) ? req.body : null,
+      endpoint,
+      source,
+      status: null,
+      durationMs: null,
+    };
+
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+
+    res.on('finish', () => {
+      entry.status = res.statusCode;
+      entry.durationMs = Date.now() - startedAt;
+    });
+    res.on('close', () => {
+      entry.durationMs ??= Date.now() - startedAt;
+    });
+  }
+
+  /** Matching entries, oldest first */
+  find(criteria: JournalCriteria = {}): JournalEntry[] {
+    return this.entries.filter(entry => matchesCriteria(entry, criteria));
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Checks how often matching requests were made. Without a count,
+   * at least one matching request is expected.
+   */
+  verify(input: unknown): JournalVerification {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new Error('Expected a JSON object');
+    }
+    const { times, atLeast, atMost, ...rest } = input as Record<string, unknown>;
+    for (const [name, value] of Object.entries({ times, atLeast, atMost })) {
+      if (value !== undefined && (!Number.isInteger(value) || (value as number) < 0)) {
+        throw new Error(`${name} must be a non-negative integer`);
+      }
+    }
+
+    const requests = this.find(parseCriteria(rest));
+    const expected = {
+      ...(times !== undefined && { times: times as number }),
+      ...(atLeast !== undefined && { atLeast: atLeast as number }),
+      ...(atMost !== undefined && { atMost: atMost as number }),
+    };
+    const minimum = expected.times ?? expected.atLeast ?? (expected.atMost === undefined ? 1 : 0);
+    const maximum = expected.times ?? expected.atMost ?? Infinity;
+
+    return {
+      verified: requests.length >= minimum && requests.length <= maximum,
+      matched: requests.length,
+      expected,
+      requests,
+    };
+  }
+}
+
+/**
+ * Criteria from a verify body or GET /_journal query. Query strings carry
+ * status as text and body/query/headers as JSON.
+ */
+export function parseCriteria(input: Record<string, unknown>): JournalCriteria {
+  const criteria: JournalCriteria = {};
+  const { method, path, status, source, body, query, headers, ...unknown } = input;
+
+  const unknownKeys = Object.keys(unknown);
+  if (unknownKeys.length > 0) {
+    throw new Error(`Unknown journal filter(s): ${unknownKeys.join(', ')}`);
+  }
+
+  if (method !== undefined) {
+    if (typeof method !== 'string' || !method) throw new Error('method must be an HTTP method');
+    criteria.method = method.toUpperCase();
+  }
+  if (path !== undefined) {
+    if (typeof path !== 'string' || !path.startsWith('/')) throw new Error('path must start with "/"');
+    criteria.path = normalizePath(path);
+  }
+  if (status !== undefined) {
+    const code = Number(status);
+    if (!Number.isInteger(code)) throw new Error('status must be an HTTP status code');
+    criteria.status = code;
+  }
+  if (source !== undefined) {
+    if (!SOURCES.includes(source as JournalSource)) {
+      throw new Error(`source must be one of: ${SOURCES.join(', ')}`);
+    }
+    criteria.source = source as JournalSource;
+  }
+  if (body !== undefined) criteria.body = parseJsonFilter('body', body);
+  if (query !== undefined) criteria.query = parseObjectFilter('query', query);
+  if (headers !== undefined) criteria.headers = parseObjectFilter('headers', headers);
+
+  return criteria;
+}
+
+function matchesCriteria(entry: JournalEntry, criteria: JournalCriteria): boolean {
+  if (criteria.method && entry.method !== criteria.method) return false;
+  if (criteria.path) {
+    const route = entry.endpoint?.split(' ')[1];
+    if (!matchesGlob(criteria.path, entry.path) && !(route && matchesGlob(criteria.path, route))) return false;
+  }
+  if (criteria.status !== undefined && entry.status !== criteria.status) return false;
+  if (criteria.source && entry.source !== criteria.source) return false;
+  if (criteria.body !== undefined && !containsSubset(entry.body, criteria.body)) return false;
+  if (criteria.query && !containsSubset(entry.query, criteria.query)) return false;
+  if (criteria.headers && !containsSubset(entry.headers, lowerCaseKeys(criteria.headers))) return false;
+  return true;
+}
+
+/**
+ * Objects match when every expected key matches; arrays when every expected
+ * element matches one of the actual elements. Scalars compare as text, since
+ * query and header values are always strings.
+ */
+function containsSubset(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && expected.every(e => actual.some(a => containsSubset(a, e)));
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) return false;
+    return Object.entries(expected).every(([key, value]) =>
+      containsSubset((actual as Record<string, unknown>)[key], value),
+    );
+  }
+  if (expected === null || actual === null || actual === undefined) return actual === expected;
+  return String(actual) === String(expected);
+}
+
+function parseJsonFilter(name: string, value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`${name} must be valid JSON`);
+  }
+}
+
+function parseObjectFilter(name: string, value: unknown): Record<string, unknown> {
+  const parsed = parseJsonFilter(name, value);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${name} must be a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function flattenHeaders(headers: Request['headers']): Record<string, string> {
+  const flattened: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    if (value !== undefined) flattened[key] = Array.isArray(value) ? value.join(', ') : value;
+  }
+  return flattened;
+}
+
+function lowerCaseKeys(obj: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(obj).map(([key, value]) => [key.toLowerCase(), value]));
+}
+
+/** Express bodies default to {} when nothing was sent */
+function hasBody(body: unknown): boolean {
+  if (body === undefined || body === null) return false;
+  if (typeof body === 'object' && !Array.isArray(body)) return Object.keys(body).length > 0;
+  return body !== '';
+}
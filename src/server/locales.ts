@@ -0,0 +1,201 @@
+import { Faker } from '@faker-js/faker';
+
+/**
+ * Locales for generated text, backed by faker's locale data:
+ *   { "en": "...", "ar": "..." }     a localized field, one text per language
+ *   --locale ar                      language of plain text fields
+ *   Accept-Language: ar-SA,ar;q=0.9  picks one language of localized fields
+ *
+ * Locale codes are matched loosely: "pt-BR", "pt_BR" and "pt" all use pt_BR.
+ * Locale data is loaded on first use; the '@faker-js/faker' entry point
+ * would load all of it at startup.
+ *
+ * faker's locale entry points export shared instances, so every mock server
+ * generates with fakers of its own (createFaker) and seeding one server
+ * never changes the data of another.
+ */
+
+export const DEFAULT_LOCALE = 'en';
+
+/** Keys spelling out a language instead of its code */
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: 'en',
+  arabic: 'ar',
+  french: 'fr',
+  german: 'de',
+  spanish: 'es',
+  turkish: 'tr',
+  russian: 'ru',
+  persian: 'fa',
+  farsi: 'fa',
+  urdu: 'ur',
+  hebrew: 'he',
+  chinese: 'zh_CN',
+  japanese: 'ja',
+  korean: 'ko',
+};
+
+/** The locales faker ships, as in its locale/* entry points */
+const FAKER_LOCALE_CODES = [
+  'af_ZA', 'ar', 'az', 'base', 'cs_CZ', 'da', 'de', 'de_AT', 'de_CH', 'dv', 'el', 'en', 'en_AU', 'en_AU_ocker',
+  'en_BORK', 'en_CA', 'en_GB', 'en_GH', 'en_HK', 'en_IE', 'en_IN', 'en_NG', 'en_US', 'en_ZA', 'eo', 'es', 'es_MX',
+  'fa', 'fi', 'fr', 'fr_BE', 'fr_CA', 'fr_CH', 'fr_LU', 'fr_SN', 'he', 'hr', 'hu', 'hy', 'id_ID', 'it', 'ja',
+  'ka_GE', 'ko', 'lv', 'mk', 'nb_NO', 'ne', 'nl', 'nl_BE', 'pl', 'pt_BR', 'pt_PT', 'ro', 'ro_MD', 'ru', 'sk',
+  'sr_RS_latin', 'sv', 'th', 'tr', 'uk', 'ur', 'vi', 'yo_NG', 'zh_CN', 'zh_TW', 'zu_ZA',
+];
+
+/** "id" is an identifier far more often than Indonesian */
+const AMBIGUOUS_CODES = new Set(['id', 'base']);
+
+const FAKER_LOCALES = buildLocaleIndex();
+/** faker's shared instances, only read for their locale definitions */
+const loadedFakers = new Map<string, Faker>();
+/** Fakers for other locales, per English faker from createFaker */
+const ownedFakers = new WeakMap<Faker, Map<string, Faker>>();
+
+/**
+ * The faker locale a key or language tag stands for, or null:
+ * "ar" → "ar", "pt-BR" → "pt_BR", "zh" → "zh_CN", "arabic" → "ar"
+ */
+export function resolveLocale(code: string): string | null {
+  const normalized = code.trim().toLowerCase().replace(/-/g, '_');
+  if (AMBIGUOUS_CODES.has(normalized)) return null;
+  if (LANGUAGE_NAMES[normalized]) return LANGUAGE_NAMES[normalized];
+  return FAKER_LOCALES.get(normalized) ?? FAKER_LOCALES.get(normalized.split('_')[0]) ?? null;
+}
+
+/** An English faker of its own, for one mock server */
+export function createFaker(): Faker {
+  return copyFaker(sharedFaker(DEFAULT_LOCALE));
+}
+
+/**
+ * The faker for a locale that goes with `owner` (from createFaker): the
+ * owner itself for English, otherwise an instance created on first use
+ */
+export function fakerFor(locale: string, owner: Faker): Faker {
+  const resolved = resolveLocale(locale) ?? DEFAULT_LOCALE;
+  if (resolved === DEFAULT_LOCALE) return owner;
+
+  let owned = ownedFakers.get(owner);
+  if (!owned) {
+    owned = new Map();
+    ownedFakers.set(owner, owned);
+  }
+  let localeFaker = owned.get(resolved);
+  if (!localeFaker) {
+    localeFaker = copyFaker(sharedFaker(resolved));
+    owned.set(resolved, localeFaker);
+  }
+  return localeFaker;
+}
+
+function sharedFaker(resolved: string): Faker {
+  let localeFaker = loadedFakers.get(resolved);
+  if (!localeFaker) {
+    localeFaker = (require(`@faker-js/faker/locale/${resolved}`) as { faker: Faker }).faker;
+    loadedFakers.set(resolved, localeFaker);
+  }
+  return localeFaker;
+}
+
+/**
+ * A new instance with the same locale data. The Faker class is taken from
+ * the instance, as importing it would load the '@faker-js/faker' entry point.
+ */
+function copyFaker(source: Faker): Faker {
+  const FakerClass = source.constructor as typeof Faker;
+  return new FakerClass({ locale: source.rawDefinitions });
+}
+
+/**
+ * True for i18n sub-objects: at least two keys, all of them locale codes,
+ * all holding text ({ "en": "Apple", "ar": "تفاحة" })
+ */
+export function isLocalizedObject(value: unknown): value is Record<string, string> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const entries = Object.entries(value);
+  return entries.length >= 2 && entries.every(([key, text]) => typeof text === 'string' && resolveLocale(key) !== null);
+}
+
+/** Every language used by localized objects in a template, in order of appearance */
+export function templateLocales(template: unknown): string[] {
+  const locales = new Set<string>();
+  const visit = (value: unknown): void => {
+    if (isLocalizedObject(value)) {
+      Object.keys(value).forEach(key => locales.add(key));
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(template);
+  return [...locales];
+}
+
+/**
+ * Picks the best of the available keys for an Accept-Language header,
+ * honouring q-values; "ar-SA" matches an "ar" key. Null when none fits.
+ */
+export function negotiateLocale(acceptLanguage: string | undefined, available: string[]): string | null {
+  if (!acceptLanguage) return null;
+
+  const ranges = acceptLanguage
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map(p => p.trim().match(/^q=([\d.]+)$/)).find(Boolean);
+      return { tag: tag.trim(), q: q ? Number(q[1]) : 1, index };
+    })
+    .filter(range => range.tag && range.q > 0)
+    .sort((a, b) => b.q - a.q || a.index - b.index);
+
+  for (const { tag } of ranges) {
+    if (tag === '*') return available[0] ?? null;
+    const match = available.find(key => sameLocale(key, tag))
+      ?? available.find(key => sameLanguage(key, tag));
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Replaces every localized object with its text in one language, falling
+ * back to the first language it has
+ */
+export function localizeData(data: unknown, locale: string): unknown {
+  if (isLocalizedObject(data)) {
+    const key = Object.keys(data).find(k => sameLocale(k, locale))
+      ?? Object.keys(data).find(k => sameLanguage(k, locale))
+      ?? Object.keys(data)[0];
+    return data[key];
+  }
+  if (Array.isArray(data)) return data.map(item => localizeData(item, locale));
+  if (data && typeof data === 'object') {
+    return Object.fromEntries(Object.entries(data).map(([key, value]) => [key, localizeData(value, locale)]));
+  }
+  return data;
+}
+
+function sameLocale(a: string, b: string): boolean {
+  return a.toLowerCase().replace(/-/g, '_') === b.toLowerCase().replace(/-/g, '_');
+}
+
+function sameLanguage(a: string, b: string): boolean {
+  return a.toLowerCase().split(/[-_]/)[0] === b.toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Lower-cased faker locales, plus each language on its own when faker has
+ * no plain variant ("pt" → "pt_BR")
+ */
+function buildLocaleIndex(): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const code of FAKER_LOCALE_CODES) index.set(code.toLowerCase(), code);
+  for (const code of FAKER_LOCALE_CODES) {
+    const language = code.split('_')[0].toLowerCase();
+    if (!index.has(language)) index.set(language, code);
+  }
+  return index;
+}
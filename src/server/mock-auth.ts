@@ -0,0 +1,271 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { EndpointAuth } from '../parser/schema-types';
+
+/**
+ * Built-in mock authentication, for exercising login, logout and
+ * expired-token flows:
+ *
+ *   POST /auth/login    { "username": "admin", "password": "password" } → fake JWT
+ *   POST /auth/logout   revokes the token it is called with
+ *   GET  /auth/me       the token's user
+ *
+ * Tokens are HS256 JWTs signed with a per-run secret; their `sub` is a mock
+ * user id. With --enforce-auth, documented endpoints that need credentials
+ * answer 401 without a valid token and 403 when the user lacks the role.
+ */
+
+export interface MockUser {
+  id: number | string;
+  username: string;
+  password: string;
+  email?: string;
+  role?: string;
+  /** Fixed token that never expires, for tests that skip the login */
+  token?: string;
+  [field: string]: unknown;
+}
+
+export interface AuthOptions {
+  loginPath: string;
+  users: MockUser[];
+  /** Seconds until an issued token expires */
+  tokenTtl: number;
+}
+
+export type AuthCheck =
+  | { ok: true; user: MockUser }
+  | { ok: false; status: 401 | 403; message: string };
+
+export const DEFAULT_LOGIN_PATH = '/auth/login';
+export const DEFAULT_TOKEN_TTL = 3600;
+
+export const DEFAULT_MOCK_USERS: MockUser[] = [
+  { id: 1, username: 'admin', email: 'admin@example.com', password: 'password', role: 'admin', name: 'Admin User' },
+  { id: 2, username: 'user', email: 'user@example.com', password: 'password', role: 'user', name: 'Regular User' },
+];
+
+interface Session {
+  userId: MockUser['id'];
+  expiresAt: number;
+  /** Set by logout (revoked) or POST /_config/auth/expire (expired) */
+  ended?: 'revoked' | 'expired';
+}
+
+export class AuthController {
+  private secret = randomBytes(32);
+  private sessions = new Map<string, Session>();
+
+  constructor(private options: AuthOptions) {}
+
+  get loginPath(): string {
+    return this.options.loginPath;
+  }
+
+  /** Logout and me live next to the login path: /auth/login → /auth/logout, /auth/me */
+  get logoutPath(): string {
+    return this.siblingPath('logout');
+  }
+
+  get mePath(): string {
+    return this.siblingPath('me');
+  }
+
+  get users(): MockUser[] {
+    return this.options.users;
+  }
+
+  toJSON(): Record<string, unknown> {
+    const now = Date.now();
+    return {
+      loginPath: this.loginPath,
+      logoutPath: this.logoutPath,
+      mePath: this.mePath,
+      tokenTtl: this.options.tokenTtl,
+      activeSessions: [...this.sessions.values()].filter(s => !s.ended && s.expiresAt > now).length,
+      users: this.options.users.map(publicUser),
+    };
+  }
+
+  /**
+   * Issues a token for a username (or email) and password. Returns null for
+   * unknown users and wrong passwords.
+   */
+  login(body: unknown): { token: string; expiresIn: number; user: MockUser } | null {
+    const fields = body && typeof body === 'object' ? body as Record<string, unknown> : {};
+    const user = this.findUser(fields.username ?? fields.email ?? fields.login, fields.password);
+    if (!user) return null;
+
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt = issuedAt + this.options.tokenTtl;
+    const jti = randomUUID();
+    this.sessions.set(jti, { userId: user.id, expiresAt: expiresAt * 1000 });
+
+    const token = this.sign({
+      sub: user.id,
+      username: user.username,
+      ...(user.role && { role: user.role }),
+      iat: issuedAt,
+      exp: expiresAt,
+      jti,
+    });
+    return { token, expiresIn: this.options.tokenTtl, user };
+  }
+
+  /** Returns false when the request carried no valid session token */
+  logout(req: Request): boolean {
+    const token = bearerToken(req.get('Authorization'));
+    const jti = token ? this.verify(token)?.jti : undefined;
+    const session = typeof jti === 'string' ? this.sessions.get(jti) : undefined;
+    if (!session || session.ended) return false;
+    session.ended = 'revoked';
+    return true;
+  }
+
+  /**
+   * Expires every token issued so far; they answer 401 "Token expired"
+   * from now on. Returns how many sessions were ended.
+   */
+  expireAll(): number {
+    let count = 0;
+    for (const session of this.sessions.values()) {
+      if (!session.ended) {
+        session.ended = 'expired';
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Checks the credentials a documented endpoint requires
+   */
+  authenticate(req: Request, auth: EndpointAuth): AuthCheck {
+    const value = req.get(auth.header);
+    if (!value) {
+      return { ok: false, status: 401, message: `Missing ${auth.header} header` };
+    }
+
+    const check = auth.scheme === 'basic'
+      ? this.checkBasic(value)
+      : this.checkToken(auth.scheme === 'bearer' ? bearerToken(value) : value.trim());
+    if (!check.ok) return check;
+
+    if (auth.role && check.user.role !== auth.role) {
+      return { ok: false, status: 403, message: `Requires the ${auth.role} role` };
+    }
+    return check;
+  }
+
+  /** The user behind a bearer token, for GET /auth/me */
+  currentUser(req: Request): AuthCheck {
+    const value = req.get('Authorization');
+    if (!value) return { ok: false, status: 401, message: 'Missing Authorization header' };
+    return this.checkToken(bearerToken(value));
+  }
+
+  private checkToken(token: string | null): AuthCheck {
+    if (!token) {
+      return { ok: false, status: 401, message: 'Expected "Bearer <token>"' };
+    }
+
+    const fixed = this.options.users.find(u => u.token !== undefined && u.token === token);
+    if (fixed) return { ok: true, user: fixed };
+
+    const payload = this.verify(token);
+    if (!payload) return { ok: false, status: 401, message: 'Invalid token' };
+
+    const session = this.sessions.get(String(payload.jti));
+    if (!session || session.ended === 'revoked') {
+      return { ok: false, status: 401, message: 'Token has been revoked' };
+    }
+    if (session.ended === 'expired' || session.expiresAt <= Date.now()) {
+      return { ok: false, status: 401, message: 'Token expired' };
+    }
+
+    const user = this.options.users.find(u => String(u.id) === String(payload.sub));
+    return user ? { ok: true, user } : { ok: false, status: 401, message: 'Unknown user' };
+  }
+
+  private checkBasic(value: string): AuthCheck {
+    const match = value.match(/^Basic\s+(.+)$/i);
+    const decoded = match ? Buffer.from(match[1], 'base64').toString('utf-8') : '';
+    const separator = decoded.indexOf(':');
+    if (separator === -1) {
+      return { ok: false, status: 401, message: 'Expected "Basic <base64 username:password>"' };
+    }
+    // Basic credentials are checked on every request; only login() starts sessions
+    const user = this.findUser(decoded.slice(0, separator), decoded.slice(separator + 1));
+    return user ? { ok: true, user } : { ok: false, status: 401, message: 'Invalid credentials' };
+  }
+
+  /** The user with this username (or email) and password, without starting a session */
+  private findUser(login: unknown, password: unknown): MockUser | undefined {
+    return this.options.users.find(
+      u => (u.username === login || (u.email !== undefined && u.email === login)) && u.password === password,
+    );
+  }
+
+  private sign(payload: Record<string, unknown>): string {
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const body = base64url(JSON.stringify(payload));
+    return `${header}.${body}.${this.signature(`${header}.${body}`)}`;
+  }
+
+  /** The payload of a token signed by this server, or null */
+  private verify(token: string): Record<string, unknown> | null {
+    const [header, body, signature] = token.split('.');
+    if (!header || !body || !signature) return null;
+
+    const expected = Buffer.from(this.signature(`${header}.${body}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+      return JSON.parse(Buffer.from(body, 'base64url').toString('utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private signature(data: string): string {
+    return createHmac('sha256', this.secret).update(data).digest('base64url');
+  }
+
+  private siblingPath(name: string): string {
+    return this.options.loginPath.replace(/\/[^/]*$/, '') + `/${name}`;
+  }
+}
+
+/** A user without password and fixed token, as returned by login and /auth/me */
+export function publicUser(user: MockUser): Record<string, unknown> {
+  const { password: _password, token: _token, ...rest } = user;
+  return rest;
+}
+
+/**
+ * Validates a --auth-users file: a JSON array of users, or { "users": [...] }
+ */
+export function parseMockUsers(content: string): MockUser[] {
+  const parsed = JSON.parse(content);
+  const users = Array.isArray(parsed) ? parsed : parsed?.users;
+  if (!Array.isArray(users) || users.length === 0) {
+    throw new Error('Expected a non-empty array of users, or { "users": [...] }');
+  }
+
+  return users.map((user, index) => {
+    if (!user || typeof user !== 'object' || typeof user.username !== 'string' || typeof user.password !== 'string') {
+      throw new Error(`User ${index + 1} needs a username and a password`);
+    }
+    return { id: index + 1, ...user } as MockUser;
+  });
+}
+
+function bearerToken(value: string | undefined): string | null {
+  const match = value?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+function base64url(text: string): string {
+  return Buffer.from(text).toString('base64url');
+}
@@ -1,12 +1,106 @@
-import express, { Request, Response, Application } from 'express';
+import express, { Request, Response, Application, NextFunction, Router } from 'express';
 import cors from 'cors';
 import axios from 'axios';
 import readline from 'readline';
+import { existsSync } from 'fs';
 import { MockSchema, MockEndpoint } from '../parser/schema-types';
-import { generateFakeData } from './data-generator';
-import { DataStore, extractCollectionKey } from './data-store';
+import { diffSchemas, isEmptyDiff, SchemaDiff } from '../parser/schema-diff';
+import { generateFakeData, GenerateOptions, withSeed } from './data-generator';
+import { DataStore, extractCollectionKey, extractItemParam, resolveCollectionKey } from './data-store';
+import { checkParams, hasRequestTemplate, validateRequestBody } from './request-validator';
+import { DEFAULT_PAGINATION, PaginationConfig } from './collection-query';
+import { loadStoreFromFile, persistStoreChanges, saveStoreToFile } from './persistence';
+import { applyScenario, Scenario, ScenarioRegistry, SCENARIO_TYPES } from './scenarios';
+import { applyChaos, ChaosController, ChaosSettings } from './chaos';
+import { recordingBody, RecordingLibrary, ReplayMatchRules } from '../recorder/recordings';
+import { DEFAULT_JOURNAL_SIZE, parseCriteria, RequestJournal } from './journal';
+import {
+  AuthController,
+  DEFAULT_LOGIN_PATH,
+  DEFAULT_MOCK_USERS,
+  DEFAULT_TOKEN_TTL,
+  MockUser,
+  publicUser,
+} from './mock-auth';
+import { DEFAULT_LOCALE, localizeData, negotiateLocale, templateLocales } from './locales';
+import { DataRules } from './data-rules';
+import { hasTemplates, renderTemplates, templateContext } from './response-templates';
 
-let responseDelay = 0;
+/** Request header and query parameter that select a documented alternative response */
+const STATUS_HEADER = 'X-Mock-Status';
+const STATUS_QUERY_PARAM = '_status';
+
+export interface MockServerOptions {
+  /** Reject POST/PUT/PATCH bodies that don't match the documented request template */
+  validateRequests?: boolean;
+  /** Makes generated collections, items and on-the-fly responses reproducible */
+  seed?: number;
+  /** Load collections from this file at startup and write changes back to it */
+  dataFile?: string;
+  /** Query parameter names and page sizes for collection GET endpoints */
+  pagination?: Partial<PaginationConfig>;
+  /** DELETE on an item also removes its sub-collections (/orders/5 → /orders/5/items) */
+  cascadeDeletes?: boolean;
+  /** Enables fault injection; unset settings use the chaos defaults */
+  chaos?: Partial<ChaosSettings>;
+  /** Makes the sequence of injected faults reproducible */
+  chaosSeed?: number;
+  /** Save every request/response pair proxied to the fallback in this directory */
+  recordDir?: string;
+  /** Answer unmatched requests from the recordings in this directory */
+  replayDir?: string;
+  replayMatch?: ReplayMatchRules;
+  /** How many requests GET /_journal keeps; 0 disables the journal */
+  journalSize?: number;
+  /** Answer 401/403 when documented auth is missing, 400 when documented headers are */
+  enforceAuth?: boolean;
+  /** Users the mock login accepts; the defaults are admin/password and user/password */
+  authUsers?: MockUser[];
+  /** Where the mock login lives; logout and me are its siblings */
+  authLoginPath?: string;
+  /** Seconds until tokens from the mock login expire */
+  tokenTtl?: number;
+  /** Language of generated text, and of localized fields when Accept-Language doesn't pick one */
+  locale?: string;
+  /** Field rules from mockmock.config for generated collections and responses */
+  dataRules?: DataRules;
+  /** Serve documented samples exactly as written instead of generating data */
+  literal?: boolean;
+  /** Log only errors, for servers embedded in test suites */
+  quiet?: boolean;
+}
+
+/**
+ * Runtime switches consulted by every documented endpoint
+ */
+export interface EndpointControls {
+  /** Response delay in ms; per server, so embedded servers don't share it */
+  delay: number;
+  scenarios: ScenarioRegistry;
+  chaos: ChaosController;
+  journal: RequestJournal;
+  /** null unless the mock auth flow is on */
+  auth: AuthController | null;
+}
+
+/**
+ * Dataset commands shared by the /_config API and the stdin console
+ */
+export interface DatasetControls {
+  /** Returns the file that was written */
+  save(file?: string): string;
+  /** Returns the collection keys that were loaded */
+  load(file: string): string[];
+  reset(): void;
+}
+
+export interface MockServerHandle {
+  /**
+   * Swaps the registered routes for a new schema without restarting.
+   * DataStore collections whose template did not change keep their records.
+   */
+  reload(schema: MockSchema): SchemaDiff;
+}
 
 function convertPathParams(path: string): string {
   return path.replace(/\{([^}]+)\}/g, ':$1');
@@ -16,53 +110,191 @@ function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-export function startMockServer(schema: MockSchema, port: number, fallbackUrl?: string, delay: number = 0): void {
-  responseDelay = delay;
+/**
+ * A configured mock server app that is not listening yet, shared by the CLI
+ * (startMockServer) and the library API (createMockServer in index.ts)
+ */
+export interface MockApp extends MockServerHandle {
+  app: Application;
+  store: DataStore;
+  controls: EndpointControls;
+  dataset: DatasetControls;
+  /** Writes pending --data-file changes immediately */
+  flush(): void;
+  /** Prints the settings summary shown once the server listens */
+  logStartup(baseUrl: string): void;
+}
+
+export function createMockApp(
+  schema: MockSchema,
+  fallbackUrl?: string,
+  delay: number = 0,
+  options: MockServerOptions = {},
+): MockApp {
+  const log = options.quiet ? () => undefined : (message: string) => console.log(message);
+
+  if (options.recordDir && !fallbackUrl) {
+    throw new Error('--record needs a --fallback URL to record from');
+  }
 
   // ── Generate all collections once, before any request hits ──────────────
-  const store = new DataStore();
+  const store = new DataStore(options.seed ?? null, {
+    locale: options.locale,
+    rules: options.dataRules,
+    literal: options.literal,
+  });
   store.initFromSchema(schema);
 
+  // ── Restore persisted data over the generated collections ───────────────
+  let flushDataFile: (() => void) | null = null;
+  if (options.dataFile) {
+    if (existsSync(options.dataFile)) {
+      const keys = loadStoreFromFile(store, options.dataFile);
+      log(`💾 Loaded ${keys.length} collection(s) from ${options.dataFile}`);
+    } else {
+      saveStoreToFile(store, options.dataFile);
+      log(`💾 Created data file ${options.dataFile}`);
+    }
+    flushDataFile = persistStoreChanges(store, options.dataFile);
+  }
+
+  const scenarios = new ScenarioRegistry();
+  const chaos = new ChaosController(options.chaos, options.chaosSeed ?? null);
+  const journal = new RequestJournal(options.journalSize);
+  const auth = options.enforceAuth || options.authUsers
+    ? new AuthController({
+      loginPath: options.authLoginPath ?? DEFAULT_LOGIN_PATH,
+      users: options.authUsers ?? DEFAULT_MOCK_USERS,
+      tokenTtl: options.tokenTtl ?? DEFAULT_TOKEN_TTL,
+    })
+    : null;
+  const controls: EndpointControls = { delay, scenarios, chaos, journal, auth };
+
+  // ── Recordings answer unmatched requests before the fallback is asked ────
+  const replay = options.replayDir ? RecordingLibrary.load(options.replayDir) : null;
+  const recorder = options.recordDir
+    ? (options.recordDir === options.replayDir ? replay : new RecordingLibrary(options.recordDir))
+    : null;
+
   const app: Application = express();
 
   app.use(cors());
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
-  console.log('\n📡 Registering endpoints:\n');
+  log('\n📡 Registering endpoints:\n');
 
-  for (const endpoint of schema) {
-    registerEndpoint(app, endpoint, store);
-    const expressPath = convertPathParams(endpoint.path);
-    console.log(`   ${endpoint.method.padEnd(6)} ${expressPath}`);
+  // Documented routes live on a router that hot reload can swap out
+  let currentSchema = schema;
+
+  const dataset: DatasetControls = {
+    save(file?: string): string {
+      const target = file || options.dataFile;
+      if (!target) {
+        throw new Error('No file given and the server was started without --data-file');
+      }
+      saveStoreToFile(store, target);
+      return target;
+    },
+    load(file: string): string[] {
+      return loadStoreFromFile(store, file);
+    },
+    reset(): void {
+      store.reset(currentSchema);
+    },
+  };
+
+  // The mock login answers before documented routes, even when the page documents its own
+  if (auth) {
+    app.post(auth.loginPath, (req: Request, res: Response) => {
+      journal.track(req, res, 'mock', `POST ${auth.loginPath}`);
+      const body = req.body ?? {};
+      if (typeof body.password !== 'string' || (body.username ?? body.email ?? body.login) === undefined) {
+        res.status(400).json({ error: 'username (or email) and password are required' });
+        return;
+      }
+      const session = auth.login(body);
+      if (!session) {
+        res.status(401).json({ error: 'Invalid credentials' });
+        return;
+      }
+      log(`🔑 Logged in: ${session.user.username}`);
+      res.json({
+        access_token: session.token,
+        token_type: 'Bearer',
+        expires_in: session.expiresIn,
+        user: publicUser(session.user),
+      });
+    });
+
+    app.post(auth.logoutPath, (req: Request, res: Response) => {
+      journal.track(req, res, 'mock', `POST ${auth.logoutPath}`);
+      if (!auth.logout(req)) {
+        res.status(401).json({ error: 'Not logged in' });
+        return;
+      }
+      res.status(204).send();
+    });
+
+    app.get(auth.mePath, (req: Request, res: Response) => {
+      journal.track(req, res, 'mock', `GET ${auth.mePath}`);
+      const check = auth.currentUser(req);
+      if (!check.ok) {
+        res.status(check.status).set('WWW-Authenticate', 'Bearer').json({ error: check.message });
+        return;
+      }
+      res.json(publicUser(check.user));
+    });
   }
 
-  app.get('/health', (_req: Request, res: Response) => {
-    const endpointList = schema.map(ep => {
+  let endpointRouter = buildEndpointRouter(schema, store, controls, options, !options.quiet);
+  app.use((req: Request, res: Response, next: NextFunction) => endpointRouter(req, res, next));
+
+  app.get('/health', (req: Request, res: Response) => {
+    // The port may have been picked by the OS (port 0), so links follow the request
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const endpointList = currentSchema.map(ep => {
       const expressPath = convertPathParams(ep.path);
       const examplePath = expressPath.replace(/:([^/]+)/g, (_, param) => `{${param}}`);
 
       return {
         method: ep.method,
         path: expressPath,
-        example: `http://localhost:${port}${examplePath}`,
+        example: `${baseUrl}${examplePath}`,
         description: `Replace {paramName} with actual values`,
+        statuses: [ep.status ?? 200, ...(ep.responses ?? []).map(r => r.status)],
+        ...(ep.pathParams && { pathParams: ep.pathParams }),
+        ...(ep.queryParams && { queryParams: ep.queryParams }),
+        ...(ep.headers && { headers: ep.headers }),
+        ...(ep.auth && { auth: ep.auth }),
       };
     });
 
     res.json({
       status: 'ok',
       server: 'MockMock',
-      totalEndpoints: schema.length,
-      baseUrl: `http://localhost:${port}`,
+      totalEndpoints: currentSchema.length,
+      baseUrl,
       fallbackUrl: fallbackUrl || null,
-      delay: `${responseDelay}ms`,
+      delay: `${controls.delay}ms`,
+      validateRequests: !!options.validateRequests,
+      cascadeDeletes: !!options.cascadeDeletes,
+      seed: store.getSeed(),
+      locale: options.locale ?? DEFAULT_LOCALE,
+      literal: !!options.literal,
+      scenarios: scenarios.list().length,
+      chaos: chaos.isEnabled(),
+      recordDir: options.recordDir ?? null,
+      replayDir: options.replayDir ?? null,
+      journal: journal.isEnabled() ? journal.size : null,
+      enforceAuth: !!options.enforceAuth,
+      auth: auth ? { loginPath: auth.loginPath, logoutPath: auth.logoutPath, mePath: auth.mePath } : null,
       endpoints: endpointList,
     });
   });
 
   app.get('/_config/delay', (_req: Request, res: Response) => {
-    res.json({ delay: responseDelay });
+    res.json({ delay: controls.delay });
   });
 
   app.put('/_config/delay', (req: Request, res: Response) => {
@@ -71,19 +303,189 @@ export function startMockServer(schema: MockSchema, port: number, fallbackUrl?:
       res.status(400).json({ error: 'delay must be a non-negative number (ms)' });
       return;
     }
-    responseDelay = newDelay;
-    console.log(`⏱️  Response delay updated to ${responseDelay}ms`);
-    res.json({ delay: responseDelay });
+    controls.delay = newDelay;
+    log(`⏱️  Response delay updated to ${controls.delay}ms`);
+    res.json({ delay: controls.delay });
+  });
+
+  app.get('/_config/seed', (_req: Request, res: Response) => {
+    res.json({ seed: store.getSeed() });
+  });
+
+  app.put('/_config/seed', (req: Request, res: Response) => {
+    const { seed: newSeed } = req.body;
+    if (newSeed !== null && !Number.isInteger(newSeed)) {
+      res.status(400).json({ error: 'seed must be an integer, or null to disable seeding' });
+      return;
+    }
+    // Regenerate so collections match the new seed immediately
+    store.reseed(newSeed, currentSchema);
+    log(`🎲 Seed updated to ${newSeed ?? 'none'}; collections regenerated`);
+    res.json({ seed: store.getSeed() });
+  });
+
+  app.get('/_config/scenarios', (_req: Request, res: Response) => {
+    res.json({ scenarios: scenarios.list() });
   });
 
-  // Fallback proxy / 404 handler
+  app.put('/_config/scenarios', (req: Request, res: Response) => {
+    try {
+      const scenario = scenarios.set(req.body);
+      log(`🎬 Scenario set: ${describeScenario(scenario)}`);
+      res.json(scenario);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid scenario' });
+    }
+  });
+
+  // Without ?method&path every scenario is cleared
+  app.delete('/_config/scenarios', (req: Request, res: Response) => {
+    const { method, path } = req.query;
+    if (typeof method === 'string' && typeof path === 'string') {
+      if (!scenarios.remove(method, path)) {
+        res.status(404).json({ error: `No scenario for ${method.toUpperCase()} ${path}` });
+        return;
+      }
+      log(`🎬 Scenario cleared: ${method.toUpperCase()} ${path}`);
+    } else {
+      scenarios.clear();
+      log('🎬 All scenarios cleared');
+    }
+    res.json({ scenarios: scenarios.list() });
+  });
+
+  app.get('/_config/chaos', (_req: Request, res: Response) => {
+    res.json(chaos);
+  });
+
+  app.put('/_config/chaos', (req: Request, res: Response) => {
+    try {
+      chaos.update(req.body);
+      log(`🌪️  Chaos settings updated (${chaos.isEnabled() ? 'enabled' : 'disabled'})`);
+      res.json(chaos);
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid chaos settings' });
+    }
+  });
+
+  // With ?method&path only that endpoint's override is removed
+  app.delete('/_config/chaos', (req: Request, res: Response) => {
+    const { method, path } = req.query;
+    if (typeof method === 'string' && typeof path === 'string') {
+      if (!chaos.removeOverride(method, path)) {
+        res.status(404).json({ error: `No chaos settings for ${method.toUpperCase()} ${path}` });
+        return;
+      }
+      log(`🌪️  Chaos settings cleared for ${method.toUpperCase()} ${path}`);
+    } else {
+      chaos.reset(options.chaos);
+      log('🌪️  Chaos disabled and reset');
+    }
+    res.json(chaos);
+  });
+
+  // Filters: ?method, ?path, ?status, ?source, ?body/?query/?headers as JSON, ?limit (newest)
+  app.get('/_journal', (req: Request, res: Response) => {
+    const { limit, ...filters } = req.query;
+    const count = limit === undefined ? undefined : Number(limit);
+    if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+      res.status(400).json({ error: 'limit must be a positive integer' });
+      return;
+    }
+    try {
+      const requests = journal.find(parseCriteria(filters));
+      res.json({ total: requests.length, requests: count ? requests.slice(-count) : requests });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid journal filter' });
+    }
+  });
+
+  app.delete('/_journal', (_req: Request, res: Response) => {
+    journal.clear();
+    log('📒 Request journal cleared');
+    res.json({ cleared: true });
+  });
+
+  app.post('/_journal/verify', (req: Request, res: Response) => {
+    try {
+      res.json(journal.verify(req.body));
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid verification' });
+    }
+  });
+
+  app.get('/_config/auth', (_req: Request, res: Response) => {
+    if (!auth) {
+      res.status(404).json({ error: 'Mock auth is off; start with --enforce-auth or --auth-users' });
+      return;
+    }
+    res.json(auth);
+  });
+
+  // Every token issued so far answers 401 "Token expired", for session-expiry UI flows
+  app.post('/_config/auth/expire', (_req: Request, res: Response) => {
+    if (!auth) {
+      res.status(404).json({ error: 'Mock auth is off; start with --enforce-auth or --auth-users' });
+      return;
+    }
+    const expired = auth.expireAll();
+    log(`🔑 Expired ${expired} token(s)`);
+    res.json({ expired });
+  });
+
+  app.post('/_config/save', (req: Request, res: Response) => {
+    try {
+      const file = dataset.save(req.body?.file);
+      log(`💾 Data saved to ${file}`);
+      res.json({ saved: file });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Save failed' });
+    }
+  });
+
+  app.post('/_config/load', (req: Request, res: Response) => {
+    const file = req.body?.file;
+    if (typeof file !== 'string' || !file) {
+      res.status(400).json({ error: 'file must be a non-empty string' });
+      return;
+    }
+    try {
+      const collections = dataset.load(file);
+      log(`💾 Loaded ${collections.length} collection(s) from ${file}`);
+      res.json({ loaded: file, collections });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Load failed' });
+    }
+  });
+
+  app.post('/_config/reset', (_req: Request, res: Response) => {
+    dataset.reset();
+    log('♻️  Data reset to freshly generated collections');
+    res.json({ reset: true });
+  });
+
+  // Recordings / fallback proxy / 404 handler
   app.use(async (req: Request, res: Response) => {
+    const recordedRequest = { method: req.method, path: req.path, query: req.query, body: req.body };
+
+    const recording = replay?.find(recordedRequest, options.replayMatch);
+    journal.track(req, res, recording ? 'replay' : fallbackUrl ? 'proxy' : 'unmatched');
+    if (recording) {
+      log(`📼 Replaying: ${req.method} ${req.originalUrl}`);
+      res.status(recording.status);
+      for (const [key, value] of Object.entries(recording.headers)) {
+        res.setHeader(key, value);
+      }
+      res.send(recordingBody(recording));
+      return;
+    }
+
     if (fallbackUrl) {
       const baseUrl = fallbackUrl.replace(/\/+$/, '');
       const targetUrl = `${baseUrl}${req.originalUrl}`;
 
       try {
-        console.log(`⤵️  Proxying to fallback: ${req.method} ${targetUrl}`);
+        log(`⤵️  Proxying to fallback: ${req.method} ${targetUrl}`);
 
         const proxyResponse = await axios({
           method: req.method as any,
@@ -103,11 +505,23 @@ export function startMockServer(schema: MockSchema, port: number, fallbackUrl?:
         const skipHeaders = new Set(['transfer-encoding', 'connection', 'keep-alive']);
         for (const [key, value] of Object.entries(proxyResponse.headers)) {
           if (value && !skipHeaders.has(key.toLowerCase())) {
-            res.setHeader(key, value as string);
+            // set-cookie arrives as a list and must stay one (see recordings.ts)
+            res.setHeader(key, value as string | string[]);
+          }
+        }
+
+        const data = Buffer.from(proxyResponse.data);
+        if (recorder) {
+          try {
+            const file = recorder.save(recordedRequest, { status: proxyResponse.status, headers: proxyResponse.headers, data });
+            log(`⏺️  Recorded ${req.method} ${req.originalUrl} → ${file}`);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`❌ Failed to record ${req.method} ${req.originalUrl}: ${message}`);
           }
         }
 
-        res.send(Buffer.from(proxyResponse.data));
+        res.send(data);
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         console.error(`❌ Fallback proxy error: ${message}`);
@@ -122,23 +536,112 @@ export function startMockServer(schema: MockSchema, port: number, fallbackUrl?:
     }
   });
 
-  const server = app.listen(port, () => {
-    console.log('\n✅ Mock server started successfully!\n');
-    console.log(`🌐 Base URL: http://localhost:${port}`);
-    console.log(`📊 Total endpoints: ${schema.length}`);
-    console.log(`⏱️  Response delay: ${responseDelay}ms`);
-    if (fallbackUrl) {
-      console.log(`🔀 Fallback: ${fallbackUrl}`);
-    }
-    console.log(`💚 Health check: http://localhost:${port}/health\n`);
+  return {
+    app,
+    store,
+    controls,
+    dataset,
+    flush(): void {
+      flushDataFile?.();
+    },
+    logStartup(baseUrl: string): void {
+      log('\n✅ Mock server started successfully!\n');
+      log(`🌐 Base URL: ${baseUrl}`);
+      log(`📊 Total endpoints: ${currentSchema.length}`);
+      log(`⏱️  Response delay: ${controls.delay}ms`);
+      if (store.getSeed() !== null) {
+        log(`🎲 Seed: ${store.getSeed()}`);
+      }
+      if (options.literal) {
+        log('📜 Literal mode: documented samples are served as written');
+      }
+      if (options.locale && options.locale !== DEFAULT_LOCALE) {
+        log(`🌍 Locale: ${options.locale}`);
+      }
+      if (options.validateRequests) {
+        log('🛡️  Request validation: enabled');
+      }
+      if (options.cascadeDeletes) {
+        log('🗑️  Cascade deletes: enabled');
+      }
+      if (chaos.isEnabled()) {
+        log(`🌪️  Chaos mode: enabled${options.chaosSeed !== undefined ? ` (seed ${options.chaosSeed})` : ''}`);
+      }
+      if (fallbackUrl) {
+        log(`🔀 Fallback: ${fallbackUrl}`);
+      }
+      if (replay) {
+        log(`📼 Replaying ${replay.size} recording(s) from ${options.replayDir}`);
+      }
+      if (recorder) {
+        log(`⏺️  Recording fallback responses to ${options.recordDir}`);
+      }
+      if (journal.isEnabled()) {
+        log(`📒 Request journal: last ${options.journalSize ?? DEFAULT_JOURNAL_SIZE} requests at /_journal`);
+      }
+      if (auth) {
+        log(`🔑 Mock login: POST ${auth.loginPath} (${auth.users.map(u => u.username).join(', ')})`);
+      }
+      if (options.enforceAuth) {
+        log('🔒 Auth enforcement: enabled');
+      }
+      if (options.dataFile) {
+        log(`💾 Data file: ${options.dataFile}`);
+      }
+      log(`💚 Health check: ${baseUrl}/health\n`);
+    },
+    reload(nextSchema: MockSchema): SchemaDiff {
+      const diff = diffSchemas(currentSchema, nextSchema);
+      if (isEmptyDiff(diff)) {
+        log('🔄 Source changed, but no endpoints were added, removed or changed');
+        return diff;
+      }
+
+      const collections = store.reloadFromSchema(nextSchema);
+      endpointRouter = buildEndpointRouter(nextSchema, store, controls, options, false);
+      currentSchema = nextSchema;
+
+      log('\n🔄 Endpoints reloaded:\n');
+      for (const ep of diff.added) log(`   + ${ep.method.padEnd(6)} ${convertPathParams(ep.path)}`);
+      for (const ep of diff.removed) log(`   - ${ep.method.padEnd(6)} ${convertPathParams(ep.path)}`);
+      for (const ep of diff.changed) log(`   ~ ${ep.method.padEnd(6)} ${convertPathParams(ep.path)}`);
+      log(
+        `\n   Collections: ${collections.kept.length} kept, ` +
+        `${collections.regenerated.length} regenerated, ${collections.removed.length} removed`
+      );
+      log(`📊 Total endpoints: ${nextSchema.length}\n`);
+
+      return diff;
+    },
+  };
+}
+
+/**
+ * Runs the mock server for the CLI: listens on the port, reads commands from
+ * stdin and exits the process on SIGINT/SIGTERM
+ */
+export function startMockServer(
+  schema: MockSchema,
+  port: number,
+  fallbackUrl?: string,
+  delay: number = 0,
+  options: MockServerOptions = {},
+): MockServerHandle {
+  const mock = createMockApp(schema, fallbackUrl, delay, options);
+
+  const server = mock.app.listen(port, () => {
+    mock.logStartup(`http://localhost:${port}`);
     console.log('Type "delay <ms>" to change response delay (e.g. "delay 500")');
+    console.log('Type "save [file]", "load <file>" or "reset" to manage the dataset');
+    console.log('Type "scenario <METHOD> <path> <type> [value]", "scenario list" or "scenario reset" for scenarios');
     console.log('Press Ctrl+C to stop the server\n');
 
-    setupStdinDelayControl();
+    setupStdinControl(mock.dataset, mock.controls);
   });
 
   const shutdown = () => {
     console.log('\n\n🛑 Shutting down mock server...');
+    mock.flush();
     server.close(() => {
       console.log('✅ Server stopped gracefully\n');
       process.exit(0);
@@ -152,71 +655,232 @@ export function startMockServer(schema: MockSchema, port: number, fallbackUrl?:
 
   process.on('SIGINT', shutdown);
   process.on('SIGTERM', shutdown);
+
+  return { reload: nextSchema => mock.reload(nextSchema) };
+}
+
+function buildEndpointRouter(
+  schema: MockSchema,
+  store: DataStore,
+  controls: EndpointControls,
+  options: MockServerOptions,
+  logRoutes: boolean,
+): Router {
+  const router = express.Router();
+  for (const endpoint of schema) {
+    registerEndpoint(router, endpoint, store, controls, options);
+    if (logRoutes) {
+      const expressPath = convertPathParams(endpoint.path);
+      console.log(`   ${endpoint.method.padEnd(6)} ${expressPath}`);
+    }
+  }
+  return router;
 }
 
 /**
  * Registers a single endpoint with Express, backed by the shared DataStore.
  *
  * Behaviour per HTTP method:
- *   GET  (no path params)  → return the full cached collection (consistent across refreshes)
+ *   GET  (list)            → return the full cached collection (consistent across refreshes)
  *   GET  (with :id)        → return the matching item from the cache
  *   POST                   → insert a new item into the cache, return it
  *   PUT / PATCH            → merge req.body into the cached item, return it
  *   DELETE                 → remove the item from the cache, return 204
  *
+ * Collections are scoped to the parent ids in the path, so /orders/5/items
+ * and /orders/6/items hold different records.
+ *
  * Falls back to on-the-fly fake data generation when there is no matching
  * cached collection (e.g. the endpoint has no corresponding GET-array pair).
+ *
+ * Every request is added to the request journal first (see journal.ts).
+ * Endpoints that document an Accept-Language header answer with their
+ * localized fields ({ en, ar }) reduced to the requested language.
+ * In chaos mode, injected faults (see chaos.ts) come first. An active
+ * scenario for the endpoint (see scenarios.ts) answers next.
+ * With `enforceAuth`, documented auth is then checked against the mock login's
+ * tokens and users (401/403, see mock-auth.ts) and required headers must be
+ * present (400), before a documented alternative response requested with
+ * X-Mock-Status or ?_status is served. Documented path and query parameters
+ * are then coerced to their types; with `validateRequests`, invalid ones are
+ * rejected with 400, and POST/PUT/PATCH bodies are checked against the
+ * documented request template (400/422).
+ * {{request...}} templates in responses and scenario bodies are filled in
+ * from the request as the response is sent (see response-templates.ts).
  */
-function registerEndpoint(app: Application, endpoint: MockEndpoint, store: DataStore): void {
-  const { method, path, response, status = 200 } = endpoint;
+function registerEndpoint(
+  app: Router,
+  endpoint: MockEndpoint,
+  store: DataStore,
+  controls: EndpointControls,
+  options: MockServerOptions = {},
+): void {
+  const {
+    method, path, request, response, status = 200, responses = [],
+    pathParams = [], queryParams = [], headers = [], auth,
+  } = endpoint;
+  const pagination: PaginationConfig = { ...DEFAULT_PAGINATION, ...options.pagination };
   const expressPath = convertPathParams(path);
-  const collectionKey = extractCollectionKey(path);
-  const hasPathParams = expressPath.includes(':');
+  const itemParam = extractItemParam(expressPath);
+  // Browsers always send Accept-Language, so only endpoints documenting it negotiate
+  const locales = headers.some(h => h.name.toLowerCase() === 'accept-language') ? templateLocales(response) : [];
+  const templated = hasTemplates(response) || responses.some(r => hasTemplates(r.response));
 
   const handler = async (req: Request, res: Response) => {
-    if (responseDelay > 0) {
-      await sleep(responseDelay);
+    controls.journal.track(req, res, 'mock', `${method} ${expressPath}`);
+
+    if (locales.length > 0) {
+      const locale = negotiateLocale(req.get('Accept-Language'), locales)
+        ?? negotiateLocale(options.locale, locales)
+        ?? locales[0];
+      const json = res.json.bind(res);
+      res.set('Content-Language', locale);
+      res.json = (body: unknown) => json(localizeData(body, locale));
+    }
+
+    if (controls.delay > 0) {
+      await sleep(controls.delay);
+    }
+
+    const chaosDecision = controls.chaos.decide(method, expressPath, req.path);
+    if (chaosDecision && await applyChaos(chaosDecision, req, res)) {
+      return;
     }
 
-    // Detect the first path parameter name (usually "id")
-    const paramNames = Object.keys(req.params);
-    const idParam = paramNames.find(p => p.toLowerCase() === 'id') ?? paramNames[0];
-    const idValue = idParam ? req.params[idParam] : null;
+    // Same seed + same request URL → same generated response
+    const generateOptions: GenerateOptions = {
+      locale: options.locale,
+      rules: options.dataRules,
+      scope: { method, path: req.path },
+      literal: options.literal,
+      faker: store.faker,
+    };
+    const fakeResponse = () =>
+      withSeed(store.faker, store.getSeed(), `response:${method} ${req.originalUrl}`, () => generateFakeData(response, generateOptions));
+
+    const scenario = controls.scenarios.match(method, expressPath, req.path);
+    // Rendered when sent, so templates see the authenticated user, coerced params and a created item
+    if (templated || hasTemplates(scenario?.body)) {
+      const json = res.json.bind(res);
+      res.json = (body: unknown) => json(renderTemplates(body, templateContext(req, res)));
+    }
+    if (scenario && await applyScenario(scenario, req, res, { response: fakeResponse, request })) {
+      return;
+    }
+
+    if (options.enforceAuth && controls.auth) {
+      if (auth) {
+        const check = controls.auth.authenticate(req, auth);
+        if (!check.ok) {
+          if (check.status === 401) res.set('WWW-Authenticate', auth.scheme === 'basic' ? 'Basic' : 'Bearer');
+          return res.status(check.status).json({ error: check.message, method, path: expressPath });
+        }
+        res.locals.user = publicUser(check.user);
+      }
+
+      const headerValues = Object.fromEntries(headers.map(h => [h.name, req.get(h.name)]));
+      const headerCheck = checkParams(headers, headerValues, 'headers');
+      if (headerCheck.issues.length > 0) {
+        return res.status(400).json({
+          error: 'Request validation failed',
+          method,
+          path: expressPath,
+          errors: headerCheck.issues,
+        });
+      }
+    }
+
+    const requestedStatus = req.get(STATUS_HEADER) ?? req.query[STATUS_QUERY_PARAM];
+    if (typeof requestedStatus === 'string' && Number(requestedStatus) !== status) {
+      const alternative = responses.find(r => r.status === Number(requestedStatus));
+      if (!alternative) {
+        return res.status(400).json({
+          error: `No documented ${requestedStatus} response for ${method} ${expressPath}`,
+          documented: [status, ...responses.map(r => r.status)],
+        });
+      }
+      // Error bodies are served as documented; their messages and flags matter more than variety
+      return res.status(alternative.status).json(alternative.response);
+    }
+
+    const pathCheck = checkParams(pathParams, req.params, 'params');
+    const queryCheck = checkParams(queryParams, req.query, 'query');
+    const paramIssues = [...pathCheck.issues, ...queryCheck.issues];
+    if (options.validateRequests && paramIssues.length > 0) {
+      return res.status(400).json({
+        error: 'Request validation failed',
+        method,
+        path: expressPath,
+        errors: paramIssues,
+      });
+    }
+    // Canonical values let /orders/007 find order 7; missing query params stay missing
+    Object.assign(req.params, pathCheck.values);
+    Object.assign(req.query, queryCheck.values);
+
+    if (options.validateRequests && ['POST', 'PUT', 'PATCH'].includes(method) && hasRequestTemplate(request)) {
+      const issues = validateRequestBody(request, req.body, { partial: method === 'PATCH' });
+      if (issues.length > 0) {
+        // A body of the wrong shape altogether is a bad request; field-level problems are unprocessable
+        const isTopLevel = issues.length === 1 && issues[0].path === '$';
+        return res.status(isTopLevel ? 400 : 422).json({
+          error: 'Request validation failed',
+          method,
+          path: expressPath,
+          errors: issues,
+        });
+      }
+    }
+
+    const collectionKey = resolveCollectionKey(expressPath, req.params);
+    const idValue = itemParam ? req.params[itemParam] : null;
+
+    // /orders/999/items when there is no order 999
+    const missingParent = store.missingParent(collectionKey, extractCollectionKey(expressPath));
+    if (missingParent) {
+      return res.status(404).json({ error: `${missingParent} not found` });
+    }
 
     switch (method) {
       case 'GET': {
-        // Paths like /mother-categories (no params) or /mother-categories/1/linkedCategories (params but last segment is resource)
+        // Paths like /mother-categories or /mother-categories/1/linkedCategories (last segment is resource)
         // → return full collection wrapped as { errors: false, data: [...] }
         if (store.hasCollection(collectionKey)) {
-          const lastSegment = expressPath.split('/').filter(Boolean).pop() ?? '';
-          const lastSegmentIsParam = lastSegment.startsWith(':');
-          if (!lastSegmentIsParam) {
-            // Last segment is resource name → return collection (list)
-            return res.status(status).json(store.getCollection(collectionKey));
+          if (!itemParam) {
+            // Last segment is resource name → return collection (list), honouring ?page/?sort/?search/filters
+            const pageUrl = (page: number) => {
+              const params = new URLSearchParams(req.query as Record<string, string>);
+              params.set(pagination.pageParam, String(page));
+              return `${req.protocol}://${req.get('host')}${req.path}?${params.toString()}`;
+            };
+            return res.status(status).json(store.queryCollection(collectionKey, req.query, pagination, pageUrl));
           }
           // Last segment is param (e.g. /mother-categories/:id) → get single item
           if (idValue) {
             const item = store.getItem(collectionKey, idValue);
             if (item) return res.status(status).json(store.wrapItemIfNeeded(collectionKey, item));
-            return res.status(status).json(generateFakeData(response));
+            return res.status(status).json(fakeResponse());
           }
         }
-        return res.status(status).json(generateFakeData(response));
+        return res.status(status).json(fakeResponse());
       }
 
       case 'POST': {
         const body = req.body && typeof req.body === 'object' ? req.body as Record<string, unknown> : {};
         const newItem = store.addItem(collectionKey, body);
+        res.locals.item = newItem;
         // Prefer documented response structure when available (not just placeholder)
         const hasDocumentedResponse = response && typeof response === 'object' &&
           (Array.isArray(response) || Object.keys(response as object).length > 0) &&
           JSON.stringify(response) !== '{"message":"Success","data":{}}';
         if (hasDocumentedResponse) {
-          const docResponse = generateFakeData(response);
-          // Merge created id into data when response has { data: {...} } and data is object
-          if (docResponse && typeof docResponse === 'object' && !Array.isArray(docResponse)) {
+          const docResponse = fakeResponse();
+          // Merge created id into data when response has { data: {...} } and data is object,
+          // unless the documented data says what to echo with {{request.body...}} templates
+          // or --literal promises the sample as written
+          if (!options.literal && docResponse && typeof docResponse === 'object' && !Array.isArray(docResponse)) {
             const doc = docResponse as Record<string, unknown>;
-            if (doc.data && typeof doc.data === 'object' && doc.data !== null) {
+            if (doc.data && typeof doc.data === 'object' && doc.data !== null && !hasTemplates(doc.data)) {
               Object.assign(doc.data as Record<string, unknown>, { id: (newItem as Record<string, unknown>).id, ...body });
             }
           }
@@ -232,23 +896,23 @@ function registerEndpoint(app: Application, endpoint: MockEndpoint, store: DataS
           const updated = store.updateItem(collectionKey, idValue, body);
           if (updated) return res.status(status).json(updated);
           // Action endpoints (e.g. PUT /items/:id/thumbnail) have no collection; return documented response
-          return res.status(status).json(generateFakeData(response));
+          return res.status(status).json(fakeResponse());
         }
-        return res.status(status).json(generateFakeData(response));
+        return res.status(status).json(fakeResponse());
       }
 
       case 'DELETE': {
         if (idValue) {
-          const deleted = store.deleteItem(collectionKey, idValue);
+          const deleted = store.deleteItem(collectionKey, idValue, { cascade: options.cascadeDeletes });
           if (deleted) return res.status(204).send();
           // Action endpoints may have no collection; return documented response instead of 404
-          return res.status(status).json(generateFakeData(response));
+          return res.status(status).json(fakeResponse());
         }
-        return res.status(status).json(generateFakeData(response));
+        return res.status(status).json(fakeResponse());
       }
 
       default:
-        return res.status(status).json(generateFakeData(response));
+        return res.status(status).json(fakeResponse());
     }
   };
 
@@ -262,19 +926,111 @@ function registerEndpoint(app: Application, endpoint: MockEndpoint, store: DataS
   }
 }
 
-function setupStdinDelayControl(): void {
+function setupStdinControl(dataset: DatasetControls, controls: EndpointControls): void {
   const rl = readline.createInterface({ input: process.stdin });
 
   rl.on('line', (line: string) => {
-    const trimmed = line.trim().toLowerCase();
-    const match = trimmed.match(/^delay\s+(\d+)$/);
-    if (match) {
-      responseDelay = parseInt(match[1], 10);
-      console.log(`⏱️  Response delay updated to ${responseDelay}ms`);
-    } else if (trimmed === 'delay') {
-      console.log(`⏱️  Current response delay: ${responseDelay}ms`);
-    } else {
-      console.log('Unknown command. Use "delay <ms>" to set delay or "delay" to check current value.');
+    const trimmed = line.trim();
+    // Commands are case-insensitive; file arguments keep their case
+    const [command = '', ...args] = trimmed.split(/\s+/);
+    const arg = args.join(' ');
+
+    try {
+      switch (command.toLowerCase()) {
+        case 'delay': {
+          if (!arg) {
+            console.log(`⏱️  Current response delay: ${controls.delay}ms`);
+          } else if (/^\d+$/.test(arg)) {
+            controls.delay = parseInt(arg, 10);
+            console.log(`⏱️  Response delay updated to ${controls.delay}ms`);
+          } else {
+            console.log('Usage: "delay <ms>" to set delay or "delay" to check current value.');
+          }
+          break;
+        }
+        case 'save':
+          console.log(`💾 Data saved to ${dataset.save(arg || undefined)}`);
+          break;
+        case 'load':
+          if (!arg) {
+            console.log('Usage: "load <file>"');
+            break;
+          }
+          console.log(`💾 Loaded ${dataset.load(arg).length} collection(s) from ${arg}`);
+          break;
+        case 'reset':
+          dataset.reset();
+          console.log('♻️  Data reset to freshly generated collections');
+          break;
+        case 'scenario':
+        case 'scenarios':
+          handleScenarioCommand(controls.scenarios, args);
+          break;
+        default:
+          console.log('Unknown command. Use "delay [ms]", "save [file]", "load <file>", "reset" or "scenario".');
+      }
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : 'Command failed'}`);
     }
   });
 }
+
+/**
+ * stdin scenario commands:
+ *   scenario list
+ *   scenario reset [METHOD path]
+ *   scenario GET /api/users error 503
+ *   scenario * /api/orders/** slow 2000
+ *   scenario POST /api/orders custom {"message":"Out of stock"}
+ */
+function handleScenarioCommand(scenarios: ScenarioRegistry, args: string[]): void {
+  const [first = 'list', ...rest] = args;
+
+  if (first.toLowerCase() === 'list') {
+    const active = scenarios.list();
+    if (active.length === 0) {
+      console.log('🎬 No active scenarios');
+    }
+    for (const scenario of active) {
+      console.log(`🎬 ${describeScenario(scenario)}`);
+    }
+    return;
+  }
+
+  if (first.toLowerCase() === 'reset') {
+    if (rest.length >= 2) {
+      const removed = scenarios.remove(rest[0], rest[1]);
+      console.log(removed ? `🎬 Scenario cleared: ${rest[0].toUpperCase()} ${rest[1]}` : `No scenario for ${rest[0]} ${rest[1]}`);
+    } else {
+      scenarios.clear();
+      console.log('🎬 All scenarios cleared');
+    }
+    return;
+  }
+
+  const [path, type, ...valueParts] = rest;
+  if (!path || !type) {
+    console.log(`Usage: "scenario <METHOD|*> <path> <${SCENARIO_TYPES.join('|')}> [status|ms|json]", "scenario list" or "scenario reset [METHOD path]"`);
+    return;
+  }
+
+  const value = valueParts.join(' ');
+  const input: Record<string, unknown> = { method: first, path, type };
+  if (value && type === 'custom') {
+    input.body = JSON.parse(value);
+  } else if (value && ['slow', 'timeout'].includes(type)) {
+    input.delay = Number(value);
+  } else if (value) {
+    input.status = Number(value);
+  }
+  console.log(`🎬 Scenario set: ${describeScenario(scenarios.set(input))}`);
+}
+
+function describeScenario(scenario: Scenario): string {
+  const details = [
+    scenario.status !== undefined ? `status ${scenario.status}` : '',
+    scenario.delay !== undefined ? `${scenario.delay}ms` : '',
+    scenario.body !== undefined ? 'custom body' : '',
+  ].filter(Boolean);
+  return `${scenario.method.padEnd(6)} ${scenario.path} → ${scenario.type}${details.length ? ` (${details.join(', ')})` : ''}`;
+}
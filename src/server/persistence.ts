@@ -0,0 +1,62 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { DataStore, DataStoreState } from './data-store';
+
+/**
+ * Saving and loading DataStore state (--data-file and the save/load commands)
+ */
+
+/** Mutations in quick succession are written once */
+const SAVE_DEBOUNCE_MS = 500;
+
+export function saveStoreToFile(store: DataStore, filePath: string): void {
+  writeFileSync(filePath, JSON.stringify(store.toState(), null, 2) + '\n');
+}
+
+/**
+ * Loads collections from a state file into the store.
+ * Returns the collection keys that were loaded.
+ */
+export function loadStoreFromFile(store: DataStore, filePath: string): string[] {
+  if (!existsSync(filePath)) {
+    throw new Error(`State file not found: ${filePath}`);
+  }
+
+  let state: DataStoreState;
+  try {
+    state = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read state file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  return store.loadState(state);
+}
+
+/**
+ * Writes the store to filePath shortly after every mutation.
+ * Returns a function that flushes a pending write immediately.
+ */
+export function persistStoreChanges(store: DataStore, filePath: string): () => void {
+  let timer: NodeJS.Timeout | null = null;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    try {
+      saveStoreToFile(store, filePath);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Failed to save data to ${filePath}: ${message}`);
+    }
+  };
+
+  store.onChange(() => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, SAVE_DEBOUNCE_MS);
+  });
+
+  return flush;
+}
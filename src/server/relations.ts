@@ -0,0 +1,90 @@
+/**
+ * Name-based relationships between collections:
+ *   category_id / categoryId      → an id from the categories collection
+ *   tag_ids / tagIds              → several ids from the tags collection
+ *   parent_id / parentId          → an id from the item's own collection
+ *   linked_categories_count       → the size of .../{id}/linkedCategories, or the
+ *                                   number of linked categories pointing at the item
+ */
+
+export interface ForeignKeyField {
+  /** Name without the suffix, e.g. "category" for category_id */
+  base: string;
+  many: boolean;
+}
+
+export function parseForeignKeyField(field: string): ForeignKeyField | null {
+  const match = field.match(/^(.+?)(?:_ids|Ids|_id|Id)$/);
+  if (!match) return null;
+  return { base: match[1], many: /ids$/i.test(field) };
+}
+
+/**
+ * Base name of a count field: "linked_categories" for linked_categories_count
+ * and linkedCategoriesCount
+ */
+export function parseCountField(field: string): string | null {
+  const match = field.match(/^(.+?)(?:_count|Count)$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Picks the collection a foreign key base refers to, by comparing it with the
+ * last path segment of each key ("category" matches /api/categories).
+ */
+export function findForeignKeyTarget(base: string, ownKey: string, collectionKeys: string[]): string | null {
+  if (normalizeName(base) === 'parent') return ownKey;
+  const wanted = new Set([normalizeName(base), normalizeName(pluralize(base))]);
+  return collectionKeys.find(key => wanted.has(normalizeName(lastSegment(key)))) ?? null;
+}
+
+/**
+ * True when a count field base names a resource segment
+ * ("linked_categories" and "linkedCategories", "items" and "items").
+ */
+export function namesResource(base: string, segment: string): boolean {
+  const name = normalizeName(segment);
+  return normalizeName(base) === name || normalizeName(pluralize(base)) === name;
+}
+
+/**
+ * Foreign keys pointing at the parent of a sub-collection, for fields the
+ * item already has: under /orders/5/items, order_id / orderId become 5.
+ */
+export function linkToParent(item: Record<string, unknown>, key: string): Record<string, unknown> {
+  const segments = key.split('/').filter(Boolean);
+  if (segments.length < 3) return {};
+
+  const parentName = singularize(segments[segments.length - 3]).replace(/-/g, '_');
+  const rawId = segments[segments.length - 2];
+  const parentId = isNaN(Number(rawId)) ? rawId : Number(rawId);
+  const camelName = parentName.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+
+  const links: Record<string, unknown> = {};
+  for (const field of [`${parentName}_id`, `${camelName}Id`]) {
+    if (field in item) links[field] = parentId;
+  }
+  return links;
+}
+
+function lastSegment(key: string): string {
+  return key.split('/').filter(Boolean).pop() ?? '';
+}
+
+/** "linked-categories", "linked_categories" and "linkedCategories" compare equal */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function singularize(word: string): string {
+  if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (/(ses|xes|ches|shes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function pluralize(word: string): string {
+  if (/[^aeiou]y$/i.test(word)) return word.slice(0, -1) + 'ies';
+  if (/(s|x|ch|sh)$/i.test(word)) return word + 'es';
+  return word + 's';
+}
@@ -0,0 +1,191 @@
+import { MockParam } from '../parser/schema-types';
+
+/**
+ * Validates request bodies against the documented request template.
+ * The template is a sample payload (e.g. { "name": "string", "qty": 1 }),
+ * so field names, primitive types, nesting and arrays are inferred from it.
+ * Path and query parameters are checked against their documented types.
+ */
+
+export interface ValidationIssue {
+  /** JSON path of the offending value, e.g. $.items[0].qty */
+  path: string;
+  message: string;
+  expected: string;
+  actual: string;
+}
+
+export interface ValidateRequestOptions {
+  /** Skip missing-field checks (PATCH sends partial bodies) */
+  partial?: boolean;
+}
+
+/**
+ * Placeholder strings that describe a type instead of being a sample value
+ */
+const TYPE_PLACEHOLDERS: Record<string, string> = {
+  string: 'string',
+  str: 'string',
+  text: 'string',
+  number: 'number',
+  integer: 'number',
+  int: 'number',
+  float: 'number',
+  double: 'number',
+  decimal: 'number',
+  boolean: 'boolean',
+  bool: 'boolean',
+  object: 'object',
+  array: 'array',
+};
+
+export function validateRequestBody(
+  template: unknown,
+  body: unknown,
+  options: ValidateRequestOptions = {},
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateValue(template, body, '$', options, issues);
+  return issues;
+}
+
+/**
+ * True when the template describes a body worth validating
+ */
+export function hasRequestTemplate(template: unknown): boolean {
+  return template !== null && template !== undefined && typeof template === 'object';
+}
+
+export interface ParamCheck {
+  /** Canonical values of the documented parameters that were sent */
+  values: Record<string, string>;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Checks path, query or header values against documented parameters. Valid values
+ * come back in canonical form ("007" → "7" for integers, "1" → "true" for
+ * booleans, enum values in their documented case).
+ */
+export function checkParams(
+  params: MockParam[],
+  values: Record<string, unknown>,
+  location: 'params' | 'query' | 'headers',
+): ParamCheck {
+  const check: ParamCheck = { values: {}, issues: [] };
+
+  for (const param of params) {
+    const path = `${location}.${param.name}`;
+    const value = values[param.name];
+
+    // Defaults are not filled in: a request without ?status or ?page gets the whole collection
+    if (value === undefined || value === '') {
+      if (param.required && param.default === undefined) {
+        check.issues.push({ path, message: 'Required parameter is missing', expected: param.type, actual: 'undefined' });
+      }
+      continue;
+    }
+
+    // Repeated query parameters (?status=a&status=b) are checked one by one but left as they are
+    const candidates = Array.isArray(value) ? value : [value];
+    const canonical = candidates.map(candidate => canonicalParamValue(param, candidate));
+    const invalid = candidates.find((_, i) => canonical[i] === null);
+    if (invalid !== undefined) {
+      const expected = param.enum ? `one of ${param.enum.join(', ')}` : param.type;
+      check.issues.push({ path, message: `Expected ${expected}`, expected, actual: JSON.stringify(invalid) });
+    } else if (!Array.isArray(value)) {
+      check.values[param.name] = canonical[0] as string;
+    }
+  }
+
+  return check;
+}
+
+function canonicalParamValue(param: MockParam, value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  let canonical: string | null = value;
+
+  switch (param.type) {
+    case 'integer':
+      canonical = /^[-+]?\d+$/.test(value.trim()) ? String(parseInt(value, 10)) : null;
+      break;
+    case 'number':
+      canonical = value.trim() !== '' && !isNaN(Number(value)) ? String(Number(value)) : null;
+      break;
+    case 'boolean':
+      canonical = /^(true|1|yes)$/i.test(value) ? 'true' : /^(false|0|no)$/i.test(value) ? 'false' : null;
+      break;
+  }
+
+  if (canonical !== null && param.enum) {
+    canonical = param.enum.find(option => option.toLowerCase() === canonical!.toLowerCase()) ?? null;
+  }
+  return canonical;
+}
+
+function validateValue(
+  template: unknown,
+  value: unknown,
+  path: string,
+  options: ValidateRequestOptions,
+  issues: ValidationIssue[],
+): void {
+  // null / undefined in the template means "any value"
+  if (template === null || template === undefined) return;
+
+  const expected = expectedType(template);
+  const actual = describeType(value);
+
+  if (expected !== actual) {
+    issues.push({
+      path,
+      message: `Expected ${expected} but received ${actual}`,
+      expected,
+      actual,
+    });
+    return;
+  }
+
+  if (Array.isArray(template) && Array.isArray(value)) {
+    if (template.length === 0) return;
+    value.forEach((item, index) => {
+      validateValue(template[0], item, `${path}[${index}]`, options, issues);
+    });
+    return;
+  }
+
+  if (expected === 'object' && typeof template === 'object') {
+    const templateObj = template as Record<string, unknown>;
+    const valueObj = value as Record<string, unknown>;
+
+    for (const [key, fieldTemplate] of Object.entries(templateObj)) {
+      const fieldPath = `${path}.${key}`;
+      if (!(key in valueObj) || valueObj[key] === undefined) {
+        if (!options.partial && fieldTemplate !== null) {
+          issues.push({
+            path: fieldPath,
+            message: 'Required field is missing',
+            expected: expectedType(fieldTemplate),
+            actual: 'undefined',
+          });
+        }
+        continue;
+      }
+      validateValue(fieldTemplate, valueObj[key], fieldPath, options, issues);
+    }
+  }
+}
+
+function expectedType(template: unknown): string {
+  if (typeof template === 'string') {
+    return TYPE_PLACEHOLDERS[template.trim().toLowerCase()] ?? 'string';
+  }
+  return describeType(template);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,139 @@
+import { randomUUID } from 'crypto';
+import { Request, Response } from 'express';
+
+/**
+ * Request data in documented responses and scenario bodies:
+ *
+ *   "id": "{{request.params.id}}"                  path parameter, as text ("007" → "7" when documented as integer)
+ *   "term": "{{request.query.q}}"                  query parameter
+ *   "title": "{{request.body.title}}"              request body field (nested: request.body.items.0.name)
+ *   "store": "{{request.headers.x-store-id}}"      request header, case-insensitive
+ *   "owner": "{{user.username}}"                   user of the mock login token (--enforce-auth)
+ *   "id": "{{item.id}}"                            record created by a POST
+ *   "at": "{{now}}", "ref": "{{uuid}}"             ISO timestamp, random UUID; also {{timestamp}} (ms)
+ *   "page": "{{request.query.page | 1}}"           fallback when the value is missing
+ *
+ * A string that is a single expression takes the value's type (body
+ * numbers, objects); path and query parameters are always strings.
+ * Expressions inside longer text are interpolated. Expressions
+ * with other roots, such as faker's {{person.firstName}}, are left as written.
+ */
+
+export interface TemplateContext {
+  request: {
+    method: string;
+    path: string;
+    url: string;
+    params: Record<string, unknown>;
+    query: Record<string, unknown>;
+    body: unknown;
+    headers: Record<string, unknown>;
+  };
+  user?: unknown;
+  item?: unknown;
+}
+
+const EXPRESSION = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const SINGLE_EXPRESSION = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+const ROOTS = new Set(['request', 'user', 'item', 'now', 'timestamp', 'uuid']);
+
+/** True when a string anywhere in the value holds a {{request...}}-style expression */
+export function hasTemplates(value: unknown): boolean {
+  if (typeof value === 'string') return isTemplate(value);
+  if (Array.isArray(value)) return value.some(hasTemplates);
+  if (value && typeof value === 'object') return Object.values(value).some(hasTemplates);
+  return false;
+}
+
+export function isTemplate(text: string): boolean {
+  return [...text.matchAll(EXPRESSION)].some(([, expression]) => ROOTS.has(rootOf(expression)));
+}
+
+/**
+ * The context for a request; the user and created item are read from
+ * res.locals, so call it when the response is sent
+ */
+export function templateContext(req: Request, res: Response): TemplateContext {
+  return {
+    request: {
+      method: req.method,
+      path: req.path,
+      url: req.originalUrl,
+      params: { ...req.params },
+      query: { ...req.query },
+      body: req.body ?? null,
+      headers: { ...req.headers },
+    },
+    ...(res.locals.user !== undefined && { user: res.locals.user }),
+    ...(res.locals.item !== undefined && { item: res.locals.item }),
+  };
+}
+
+/** Copy of a value with every expression replaced */
+export function renderTemplates(value: unknown, context: TemplateContext): unknown {
+  if (typeof value === 'string') return renderString(value, context);
+  if (Array.isArray(value)) return value.map(item => renderTemplates(item, context));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderTemplates(item, context)]));
+  }
+  return value;
+}
+
+function renderString(text: string, context: TemplateContext): unknown {
+  const single = text.match(SINGLE_EXPRESSION);
+  if (single && ROOTS.has(rootOf(single[1]))) {
+    return evaluate(single[1], context) ?? null;
+  }
+
+  return text.replace(EXPRESSION, (match, expression: string) => {
+    if (!ROOTS.has(rootOf(expression))) return match;
+    const value = evaluate(expression, context);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+/** "request.query.page | 1": the value at the path, or the fallback (JSON or plain text) */
+function evaluate(expression: string, context: TemplateContext): unknown {
+  const [path, ...fallback] = expression.split('|');
+  const value = lookup(path.trim(), context);
+  if ((value === undefined || value === null || value === '') && fallback.length > 0) {
+    return parseFallback(fallback.join('|').trim());
+  }
+  return value;
+}
+
+function lookup(path: string, context: TemplateContext): unknown {
+  switch (path) {
+    case 'now':
+      return new Date().toISOString();
+    case 'timestamp':
+      return Date.now();
+    case 'uuid':
+      return randomUUID();
+  }
+
+  let current: unknown = context;
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    const record = current as Record<string, unknown>;
+    // Header names and field casing vary between clients, so fall back to a case-insensitive match
+    const key = segment in record
+      ? segment
+      : Object.keys(record).find(k => k.toLowerCase() === segment.toLowerCase());
+    current = key === undefined ? undefined : record[key];
+  }
+  return current;
+}
+
+function parseFallback(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text.replace(/^'(.*)'$/, '$1');
+  }
+}
+
+function rootOf(expression: string): string {
+  return expression.split(/[.|]/)[0].trim();
+}
@@ -0,0 +1,219 @@
+import { STATUS_CODES } from 'http';
+import { Request, Response } from 'express';
+
+/**
+ * Per-endpoint scenarios that override normal responses, for testing how a
+ * client handles failures:
+ *
+ *   error         500 (or another status) with an error body
+ *   unauthorized  401
+ *   empty         the documented response with every list emptied
+ *   validation    422 with field errors for the documented request fields
+ *   timeout       no response; the connection is dropped after `delay` ms
+ *   slow          the normal response, `delay` ms late
+ *   custom        a fixed `body` with `status`
+ */
+
+export const SCENARIO_TYPES = ['error', 'unauthorized', 'empty', 'validation', 'timeout', 'slow', 'custom'] as const;
+
+export type ScenarioType = typeof SCENARIO_TYPES[number];
+
+export interface Scenario {
+  /** HTTP method, or "*" for any */
+  method: string;
+  /**
+   * Route or request path; "*" matches within a segment, "**" across segments.
+   * Matches the documented route (/api/orders/:id) or the actual path (/api/orders/5).
+   */
+  path: string;
+  type: ScenarioType;
+  status?: number;
+  body?: unknown;
+  /** Milliseconds for slow and timeout */
+  delay?: number;
+}
+
+/** What a scenario needs to know about the endpoint it replaces */
+export interface ScenarioContext {
+  /** Documented response, already filled with fake data */
+  response: () => unknown;
+  request: unknown;
+}
+
+/** Defaults for timeout and slow scenarios set without a delay */
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_SLOW_MS = 3000;
+
+export class ScenarioRegistry {
+  private scenarios: Scenario[] = [];
+
+  /**
+   * Adds a scenario, replacing any existing one for the same method and path.
+   * Throws when the scenario is malformed.
+   */
+  set(input: unknown): Scenario {
+    const scenario = parseScenario(input);
+    this.scenarios = this.scenarios.filter(s => !isSameTarget(s, scenario));
+    this.scenarios.push(scenario);
+    return scenario;
+  }
+
+  list(): Scenario[] {
+    return [...this.scenarios];
+  }
+
+  /** Returns false when no scenario was set for that method and path */
+  remove(method: string, path: string): boolean {
+    const target = { method: method.toUpperCase(), path: normalizePath(path) };
+    const before = this.scenarios.length;
+    this.scenarios = this.scenarios.filter(s => !isSameTarget(s, target));
+    return this.scenarios.length < before;
+  }
+
+  clear(): void {
+    this.scenarios = [];
+  }
+
+  /**
+   * Scenario for a request, if any. Exact paths win over globs; among globs,
+   * the most recently set one wins.
+   */
+  match(method: string, route: string, requestPath: string): Scenario | undefined {
+    const candidates = this.scenarios.filter(
+      s => (s.method === '*' || s.method === method) && (matchesGlob(s.path, route) || matchesGlob(s.path, requestPath)),
+    );
+    return candidates.find(s => !s.path.includes('*')) ?? candidates[candidates.length - 1];
+  }
+}
+
+/**
+ * Sends the scenario's response. Returns false for slow scenarios, whose
+ * normal response the caller still has to send.
+ */
+export async function applyScenario(
+  scenario: Scenario,
+  req: Request,
+  res: Response,
+  context: ScenarioContext,
+): Promise<boolean> {
+  switch (scenario.type) {
+    case 'slow':
+      await sleepWhileOpen(res, scenario.delay ?? DEFAULT_SLOW_MS);
+      return false;
+
+    case 'timeout':
+      await sleepWhileOpen(res, scenario.delay ?? DEFAULT_TIMEOUT_MS);
+      req.socket.destroy();
+      return true;
+
+    case 'error': {
+      const status = scenario.status ?? 500;
+      res.status(status).json({ error: STATUS_CODES[status] ?? 'Error', scenario: 'error' });
+      return true;
+    }
+
+    case 'unauthorized':
+      res.status(scenario.status ?? 401).json({ error: 'Unauthorized', scenario: 'unauthorized' });
+      return true;
+
+    case 'validation':
+      res.status(scenario.status ?? 422).json({
+        error: 'Request validation failed',
+        scenario: 'validation',
+        errors: validationErrors(context.request),
+      });
+      return true;
+
+    case 'empty':
+      res.status(scenario.status ?? 200).json(emptyLists(context.response()));
+      return true;
+
+    case 'custom':
+      res.status(scenario.status ?? 200).json(scenario.body ?? null);
+      return true;
+  }
+}
+
+function parseScenario(input: unknown): Scenario {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Scenario must be an object with method, path and type');
+  }
+  const { method, path, type, status, body, delay } = input as Record<string, unknown>;
+
+  if (typeof method !== 'string' || !method) throw new Error('method must be an HTTP method or "*"');
+  if (typeof path !== 'string' || !path.startsWith('/')) throw new Error('path must start with "/"');
+  if (!SCENARIO_TYPES.includes(type as ScenarioType)) {
+    throw new Error(`type must be one of: ${SCENARIO_TYPES.join(', ')}`);
+  }
+  if (status !== undefined && (!Number.isInteger(status) || (status as number) < 100 || (status as number) > 599)) {
+    throw new Error('status must be an HTTP status code');
+  }
+  if (delay !== undefined && (typeof delay !== 'number' || delay < 0)) {
+    throw new Error('delay must be a non-negative number (ms)');
+  }
+
+  return {
+    method: method.toUpperCase(),
+    path: normalizePath(path),
+    type: type as ScenarioType,
+    ...(status !== undefined && { status: status as number }),
+    ...(body !== undefined && { body }),
+    ...(delay !== undefined && { delay: delay as number }),
+  };
+}
+
+function isSameTarget(a: Pick<Scenario, 'method' | 'path'>, b: Pick<Scenario, 'method' | 'path'>): boolean {
+  return a.method === b.method && a.path === b.path;
+}
+
+/** Documented {id} params are registered as :id */
+export function normalizePath(path: string): string {
+  return path.replace(/\{([^}]+)\}/g, ':$1').replace(/(.)\/+$/, '$1');
+}
+
+/**
+ * "*" matches within a path segment, "**" across segments
+ */
+export function matchesGlob(glob: string, path: string): boolean {
+  const pattern = glob
+    .split(/(\*\*|\*)/)
+    .map(part => (part === '**' ? '.*' : part === '*' ? '[^/]*' : part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${pattern}/?$`).test(path);
+}
+
+/**
+ * Empties the top-level array, or every array inside a wrapper object
+ * ({ errors: false, data: [] })
+ */
+function emptyLists(response: unknown): unknown {
+  if (Array.isArray(response)) return [];
+  if (response && typeof response === 'object') {
+    return Object.fromEntries(
+      Object.entries(response).map(([key, value]) => [key, Array.isArray(value) ? [] : value]),
+    );
+  }
+  return response;
+}
+
+function validationErrors(request: unknown): Array<{ path: string; message: string }> {
+  const fields = request && typeof request === 'object' && !Array.isArray(request) ? Object.keys(request) : [];
+  if (fields.length === 0) {
+    return [{ path: '$', message: 'The request is invalid' }];
+  }
+  return fields.map(field => ({ path: `$.${field}`, message: `The ${field} field is invalid` }));
+}
+
+/**
+ * Waits ms, or until the connection closes, so a stopped server is not
+ * kept alive by pending timeouts
+ */
+function sleepWhileOpen(res: Response, ms: number): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    res.once('close', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+}
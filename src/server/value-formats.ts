@@ -0,0 +1,168 @@
+import { Faker } from '@faker-js/faker';
+
+/**
+ * Formats recognised in documented sample values, so generated data keeps
+ * their meaning:
+ *   "2024-03-01T10:00:00Z"      → another timestamp near it, on the same side of today
+ *   "3f2c...-..."               → another UUID
+ *   "pending | paid | failed"   → one of those values
+ *   "pending" under "status"    → "pending"
+ *   "#1E90FF", "+966 50 123 4567", "ord_8f3k2"  → same shape, other characters
+ */
+
+export type ValueFormat =
+  | { kind: 'uuid' }
+  | { kind: 'datetime' }
+  | { kind: 'date' }
+  | { kind: 'time' }
+  | { kind: 'email' }
+  | { kind: 'url' }
+  | { kind: 'imageUrl' }
+  | { kind: 'hexColor' }
+  | { kind: 'phone' }
+  | { kind: 'digits' }
+  | { kind: 'decimal'; fractionDigits: number }
+  | { kind: 'enum'; values: string[] }
+  | { kind: 'token' };
+
+/** Samples that only name a type, generated from the field name as before */
+const PLACEHOLDERS = new Set([
+  'string', 'str', 'text', 'varchar', 'char', 'value', 'example', 'sample', 'test', 'lorem', 'lorem ipsum',
+  'xxx', '...', 'n/a', 'null', 'undefined', 'todo', 'tbd', 'date', 'datetime', 'timestamp', 'number', 'integer',
+  'int', 'float', 'double', 'boolean', 'bool', 'uuid', 'url', 'email',
+]);
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATETIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME = /^\d{2}:\d{2}(:\d{2})?$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL = /^https?:\/\/\S+$/i;
+const IMAGE_URL = /\.(png|jpe?g|gif|webp|svg|avif)(\?|#|$)/i;
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const PHONE = /^\+?[\d\s().-]+$/;
+const ENUM_TOKEN = /^([a-z][a-z0-9]*([_-][a-z0-9]+)*|[A-Z][A-Z0-9]*(_[A-Z0-9]+)*)$/;
+const ENUM_OPTION = /^[\w-]+$/;
+
+/** Field names whose values come from a fixed list */
+const ENUM_KEY = /(status|state|type|kind|role|gender|level|mode|currency|unit|method|provider|channel|platform|lang|locale|country_code|countrycode|plan|tier|visibility)$/i;
+const PHONE_KEY = /phone|mobile|tel|fax|whatsapp/i;
+const ID_KEY = /(^|_)id$|Id$|^id$|uuid|guid|ref$|reference|code$|number$|no$/;
+
+/**
+ * The format of a documented string, or null when it is free text or a
+ * placeholder such as "string"
+ */
+export function detectFormat(sample: string, key: string): ValueFormat | null {
+  const value = sample.trim();
+  if (!value || PLACEHOLDERS.has(value.toLowerCase())) return null;
+
+  if (UUID.test(value)) return { kind: 'uuid' };
+  if (DATETIME.test(value) && !isNaN(Date.parse(value.replace(' ', 'T')))) return { kind: 'datetime' };
+  if (DATE.test(value) && !isNaN(Date.parse(value))) return { kind: 'date' };
+  if (TIME.test(value)) return { kind: 'time' };
+  if (EMAIL.test(value)) return { kind: 'email' };
+  if (URL.test(value)) return IMAGE_URL.test(value) ? { kind: 'imageUrl' } : { kind: 'url' };
+  if (HEX_COLOR.test(value)) return { kind: 'hexColor' };
+
+  const digits = value.replace(/\D/g, '').length;
+  if (PHONE.test(value) && digits >= 7 && (PHONE_KEY.test(key) || /[+\s().-]/.test(value))) return { kind: 'phone' };
+  if (/^\d+$/.test(value)) return { kind: 'digits' };
+  if (/^\d+\.\d+$/.test(value)) return { kind: 'decimal', fractionDigits: value.split('.')[1].length };
+
+  // "pending | paid | failed", and "pending, paid" under "status"
+  const options = value.split(ENUM_KEY.test(key) ? /\s*[|,]\s*/ : /\s*\|\s*/);
+  if (options.length >= 2 && options.every(option => ENUM_OPTION.test(option))) {
+    return { kind: 'enum', values: options };
+  }
+  if (ENUM_TOKEN.test(value) && (ENUM_KEY.test(key) || /^[A-Z0-9_]+$/.test(value))) {
+    return { kind: 'enum', values: [value] };
+  }
+
+  // "ord_8f3k2", "A-10023", "x7Kp9": ids and codes keep their shape
+  if (ID_KEY.test(key) && /^[\w-]+$/.test(value) && /\d/.test(value)) return { kind: 'token' };
+
+  return null;
+}
+
+/**
+ * A new value in the format of the sample
+ */
+export function generateFormatted(format: ValueFormat, sample: string, faker: Faker): string {
+  const value = sample.trim();
+  switch (format.kind) {
+    case 'uuid':
+      return value === value.toUpperCase() ? faker.string.uuid().toUpperCase() : faker.string.uuid();
+    case 'datetime':
+      return formatLike(nearbyDate(value.replace(' ', 'T'), faker), value);
+    case 'date':
+      return nearbyDate(value, faker).toISOString().slice(0, 10);
+    case 'time':
+      return faker.date.anytime().toISOString().slice(11, 11 + value.length);
+    case 'email':
+      return faker.internet.email().toLowerCase();
+    case 'url':
+      return faker.internet.url();
+    case 'imageUrl':
+      return faker.image.url();
+    case 'hexColor':
+      return sameCase(faker.color.rgb({ format: 'hex' }).slice(0, value.length), value);
+    case 'phone':
+      // Keep the country code or trunk prefix: "+966 ...", "05..."
+      return reshape(value, faker, /^(\+\d{1,3}|0)/);
+    case 'digits':
+      return faker.string.numeric({ length: value.length, allowLeadingZeros: value.startsWith('0') });
+    case 'decimal':
+      return faker.number
+        .float({ min: 0, max: 10 ** value.split('.')[0].length, fractionDigits: format.fractionDigits })
+        .toFixed(format.fractionDigits);
+    case 'enum':
+      return faker.helpers.arrayElement(format.values);
+    case 'token':
+      // Keep a prefix such as "ord_" or "INV-"
+      return reshape(value, faker, /^[A-Za-z]+[_-]/);
+  }
+}
+
+/**
+ * A date within a year of the sample that stays on its side of today, so
+ * created_at stays past, expires_at stays future and birthdays stay old
+ */
+function nearbyDate(sample: string, faker: Faker): Date {
+  const year = 365 * 24 * 60 * 60 * 1000;
+  const at = Date.parse(sample);
+  const now = Date.now();
+  return at > now
+    ? faker.date.between({ from: Math.max(now, at - year), to: at + year })
+    : faker.date.between({ from: at - year, to: Math.min(now, at + year) });
+}
+
+/** Same separator, precision and time zone notation as the sample */
+function formatLike(date: Date, sample: string): string {
+  const [, seconds, fraction, zone] = sample.match(/\d{2}:\d{2}(:\d{2})?(\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/) ?? [];
+  const iso = date.toISOString();
+
+  let result = iso.slice(0, 16);
+  if (seconds) result += iso.slice(16, 19);
+  if (seconds && fraction) result += '.' + iso.slice(20, 23).padEnd(fraction.length - 1, '0').slice(0, fraction.length - 1);
+  result += zone ?? '';
+  return sample.includes(' ') ? result.replace('T', ' ') : result;
+}
+
+/**
+ * Replaces digits and letters with random ones of the same kind, keeping
+ * separators and the part matched by `keep`
+ */
+function reshape(value: string, faker: Faker, keep: RegExp): string {
+  const kept = value.match(keep)?.[0] ?? '';
+  const rest = value.slice(kept.length).replace(/[0-9]|[a-z]|[A-Z]/g, char => {
+    if (/\d/.test(char)) return faker.string.numeric();
+    const letter = faker.string.alpha();
+    return char === char.toUpperCase() ? letter.toUpperCase() : letter.toLowerCase();
+  });
+  return kept + rest;
+}
+
+function sameCase(text: string, sample: string): string {
+  return sample === sample.toUpperCase() ? text.toUpperCase() : text.toLowerCase();
+}
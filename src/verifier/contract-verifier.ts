@@ -0,0 +1,134 @@
+import { fetchFallbackEndpointResponse } from '../fetcher/confluence';
+import { MockEndpoint, MockSchema } from '../parser/schema-types';
+import { diffShape, ShapeDifference } from './shape-diff';
+
+/**
+ * Calls every documented read-only endpoint on a real backend and compares
+ * the response shape with the documented response template.
+ */
+
+export interface VerifyOptions {
+  baseUrl: string;
+  /** Extra request headers, e.g. Authorization */
+  headers?: Record<string, string>;
+  /** Values substituted into {param} / :param path segments */
+  params?: Record<string, string>;
+}
+
+export type VerificationStatus = 'passed' | 'failed' | 'skipped' | 'error';
+
+export interface EndpointVerification {
+  method: MockEndpoint['method'];
+  path: string;
+  /** Concrete path that was requested, after param substitution */
+  requestPath?: string;
+  status: VerificationStatus;
+  differences: ShapeDifference[];
+  message?: string;
+  durationMs: number;
+}
+
+export interface VerificationReport {
+  target: string;
+  generatedAt: string;
+  summary: Record<VerificationStatus, number> & { total: number };
+  results: EndpointVerification[];
+}
+
+/** Default response the ERD parser assigns when nothing was documented */
+const PLACEHOLDER_RESPONSE = JSON.stringify({ message: 'Success', data: {} });
+
+export async function verifyContracts(
+  schema: MockSchema,
+  options: VerifyOptions,
+): Promise<VerificationReport> {
+  const results: EndpointVerification[] = [];
+
+  for (const endpoint of schema) {
+    results.push(await verifyEndpoint(endpoint, options));
+  }
+
+  const summary = { total: results.length, passed: 0, failed: 0, skipped: 0, error: 0 };
+  for (const result of results) {
+    summary[result.status]++;
+  }
+
+  return {
+    target: options.baseUrl,
+    generatedAt: new Date().toISOString(),
+    summary,
+    results,
+  };
+}
+
+async function verifyEndpoint(
+  endpoint: MockEndpoint,
+  options: VerifyOptions,
+): Promise<EndpointVerification> {
+  const base = { method: endpoint.method, path: endpoint.path, differences: [] as ShapeDifference[] };
+
+  if (endpoint.method !== 'GET') {
+    return { ...base, status: 'skipped', message: 'Only read-only endpoints are verified', durationMs: 0 };
+  }
+
+  if (JSON.stringify(endpoint.response) === PLACEHOLDER_RESPONSE) {
+    return { ...base, status: 'skipped', message: 'No documented response', durationMs: 0 };
+  }
+
+  const { path: requestPath, missing } = substitutePathParams(endpoint.path, options.params ?? {});
+  if (missing.length > 0) {
+    return {
+      ...base,
+      status: 'skipped',
+      message: `No value for path param(s): ${missing.join(', ')} (pass --param ${missing[0]}=<value>)`,
+      durationMs: 0,
+    };
+  }
+
+  const startedAt = Date.now();
+  try {
+    const actual = await fetchFallbackEndpointResponse(
+      options.baseUrl,
+      requestPath,
+      endpoint.method,
+      options.headers,
+    );
+    const differences = diffShape(endpoint.response, actual);
+    return {
+      ...base,
+      requestPath,
+      status: differences.length === 0 ? 'passed' : 'failed',
+      differences,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      ...base,
+      requestPath,
+      status: 'error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+function substitutePathParams(
+  path: string,
+  params: Record<string, string>,
+): { path: string; missing: string[] } {
+  const missing: string[] = [];
+  const substituted = path
+    .split('/')
+    .map(segment => {
+      const match = segment.match(/^:(.+)$/) ?? segment.match(/^\{([^}]+)\}$/);
+      if (!match) return segment;
+      const value = params[match[1]];
+      if (value === undefined) {
+        missing.push(match[1]);
+        return segment;
+      }
+      return encodeURIComponent(value);
+    })
+    .join('/');
+  return { path: substituted, missing };
+}
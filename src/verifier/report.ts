@@ -0,0 +1,99 @@
+import { ShapeDifference } from './shape-diff';
+import { VerificationReport } from './contract-verifier';
+
+/**
+ * Console, JSON and JUnit XML output for `mock-mock verify`
+ */
+
+const STATUS_ICONS = {
+  passed: '✅',
+  failed: '❌',
+  skipped: '⏭️ ',
+  error: '💥',
+};
+
+export function printReport(report: VerificationReport): void {
+  console.log(`🔎 Verifying against ${report.target}\n`);
+
+  for (const result of report.results) {
+    const requested = result.requestPath && result.requestPath !== result.path
+      ? ` → ${result.requestPath}`
+      : '';
+    console.log(`${STATUS_ICONS[result.status]} ${result.method.padEnd(6)} ${result.path}${requested}`);
+
+    if (result.message) {
+      console.log(`      ${result.message}`);
+    }
+    for (const diff of result.differences) {
+      console.log(`      ${describeDifference(diff)}`);
+    }
+  }
+
+  const { total, passed, failed, skipped, error } = report.summary;
+  console.log(
+    `\n📊 ${total} endpoint(s): ${passed} passed, ${failed} failed, ${error} error(s), ${skipped} skipped\n`
+  );
+}
+
+export function toJSONReport(report: VerificationReport): string {
+  return JSON.stringify(report, null, 2) + '\n';
+}
+
+export function toJUnitReport(report: VerificationReport): string {
+  const { total, failed, skipped, error } = report.summary;
+  const totalSeconds = report.results.reduce((sum, r) => sum + r.durationMs, 0) / 1000;
+
+  const testcases = report.results.map(result => {
+    const attrs =
+      `classname="${escapeXML(result.method)}" ` +
+      `name="${escapeXML(`${result.method} ${result.path}`)}" ` +
+      `time="${(result.durationMs / 1000).toFixed(3)}"`;
+
+    switch (result.status) {
+      case 'passed':
+        return `    <testcase ${attrs}/>`;
+      case 'skipped':
+        return `    <testcase ${attrs}>\n      <skipped message="${escapeXML(result.message ?? '')}"/>\n    </testcase>`;
+      case 'error':
+        return `    <testcase ${attrs}>\n      <error message="${escapeXML(result.message ?? '')}"/>\n    </testcase>`;
+      case 'failed': {
+        const details = result.differences.map(describeDifference).join('\n');
+        const message = `${result.differences.length} shape difference(s)`;
+        return `    <testcase ${attrs}>\n      <failure message="${escapeXML(message)}">${escapeXML(details)}</failure>\n    </testcase>`;
+      }
+    }
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites tests="${total}" failures="${failed}" errors="${error}" skipped="${skipped}" time="${totalSeconds.toFixed(3)}">`,
+    `  <testsuite name="mock-mock verify" tests="${total}" failures="${failed}" errors="${error}" skipped="${skipped}" ` +
+      `time="${totalSeconds.toFixed(3)}" timestamp="${report.generatedAt}">`,
+    ...testcases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+function describeDifference(diff: ShapeDifference): string {
+  switch (diff.kind) {
+    case 'missing-key':
+      return `missing key     ${diff.path} (documented as ${diff.documented})`;
+    case 'extra-key':
+      return `extra key       ${diff.path} (${diff.actual}, not documented)`;
+    case 'array-vs-object':
+      return `array vs object ${diff.path} (documented ${diff.documented}, got ${diff.actual})`;
+    case 'type-mismatch':
+      return `type mismatch   ${diff.path} (documented ${diff.documented}, got ${diff.actual})`;
+  }
+}
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
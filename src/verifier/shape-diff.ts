@@ -0,0 +1,100 @@
+/**
+ * Structural comparison between a documented response template and a real
+ * response. Only shape matters (keys, primitive types, arrays vs objects);
+ * values are expected to differ.
+ */
+
+export type ShapeDifferenceKind = 'missing-key' | 'extra-key' | 'type-mismatch' | 'array-vs-object';
+
+export interface ShapeDifference {
+  kind: ShapeDifferenceKind;
+  /** JSON path, with [*] standing for any array element, e.g. $.data[*].id */
+  path: string;
+  documented: string;
+  actual: string;
+}
+
+export function diffShape(documented: unknown, actual: unknown): ShapeDifference[] {
+  const differences: ShapeDifference[] = [];
+  compare(documented, actual, '$', differences);
+
+  // Array elements are compared one by one, so collapse repeats of the same finding
+  const seen = new Set<string>();
+  return differences.filter(diff => {
+    const key = `${diff.kind} ${diff.path} ${diff.actual}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function compare(
+  documented: unknown,
+  actual: unknown,
+  path: string,
+  differences: ShapeDifference[],
+): void {
+  // A null sample documents the key but not its type
+  if (documented === null || documented === undefined) return;
+
+  const documentedType = shapeType(documented);
+  const actualType = shapeType(actual);
+
+  if (documentedType !== actualType) {
+    const isContainerMismatch =
+      (documentedType === 'array' && actualType === 'object') ||
+      (documentedType === 'object' && actualType === 'array');
+    differences.push({
+      kind: isContainerMismatch ? 'array-vs-object' : 'type-mismatch',
+      path,
+      documented: documentedType,
+      actual: actualType,
+    });
+    return;
+  }
+
+  if (Array.isArray(documented) && Array.isArray(actual)) {
+    if (documented.length === 0) return;
+    for (const item of actual) {
+      compare(documented[0], item, `${path}[*]`, differences);
+    }
+    return;
+  }
+
+  if (documentedType === 'object') {
+    const documentedObj = documented as Record<string, unknown>;
+    const actualObj = actual as Record<string, unknown>;
+
+    for (const [key, value] of Object.entries(documentedObj)) {
+      const childPath = `${path}.${key}`;
+      if (!(key in actualObj)) {
+        differences.push({
+          kind: 'missing-key',
+          path: childPath,
+          documented: shapeType(value),
+          actual: 'undefined',
+        });
+        continue;
+      }
+      compare(value, actualObj[key], childPath, differences);
+    }
+
+    for (const [key, value] of Object.entries(actualObj)) {
+      if (!(key in documentedObj)) {
+        differences.push({
+          kind: 'extra-key',
+          path: `${path}.${key}`,
+          documented: 'undefined',
+          actual: shapeType(value),
+        });
+      }
+    }
+  }
+}
+
+function shapeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
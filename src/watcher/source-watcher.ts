@@ -0,0 +1,107 @@
+import { createHash } from 'crypto';
+import { unwatchFile, watchFile } from 'fs';
+import {
+  fetchConfluencePage,
+  fetchConfluencePageTree,
+  fetchConfluencePageVersion,
+  toLocalPath,
+} from '../fetcher/confluence';
+import { fetchSpecDocument } from '../fetcher/spec';
+
+/**
+ * Detects changes to schema sources for hot reload.
+ * Local files are watched by mtime; remote pages are polled, using the
+ * Confluence page version when the REST API is available and a content hash
+ * otherwise.
+ */
+
+export interface WatchTarget {
+  location: string;
+  kind: 'page' | 'spec' | 'tree';
+  /** Base URL used to resolve bare page IDs for tree targets */
+  baseUrl?: string;
+}
+
+export interface WatchOptions {
+  /** Poll interval for remote sources */
+  intervalMs: number;
+}
+
+/** Local files are cheap to stat, so they are checked more often */
+const LOCAL_FILE_INTERVAL_MS = 1000;
+
+/**
+ * Starts watching the targets and calls onChange with the location of each
+ * source that changed. Returns a function that stops all watchers.
+ */
+export function watchSources(
+  targets: WatchTarget[],
+  options: WatchOptions,
+  onChange: (location: string) => void,
+): () => void {
+  const stops: Array<() => void> = [];
+
+  for (const target of targets) {
+    if (isLocalTarget(target)) {
+      const filePath = toLocalPath(target.location);
+      watchFile(filePath, { interval: LOCAL_FILE_INTERVAL_MS }, (current, previous) => {
+        if (current.mtimeMs !== previous.mtimeMs) {
+          onChange(target.location);
+        }
+      });
+      stops.push(() => unwatchFile(filePath));
+      continue;
+    }
+
+    let lastFingerprint: string | null = null;
+    let polling = false;
+
+    const poll = async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        const fingerprint = await fetchFingerprint(target);
+        if (lastFingerprint !== null && fingerprint !== lastFingerprint) {
+          onChange(target.location);
+        }
+        lastFingerprint = fingerprint;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`[WARN] Failed to check ${target.location} for changes: ${message}`);
+      } finally {
+        polling = false;
+      }
+    };
+
+    void poll();
+    const timer = setInterval(poll, options.intervalMs);
+    stops.push(() => clearInterval(timer));
+  }
+
+  return () => stops.forEach(stop => stop());
+}
+
+function isLocalTarget(target: WatchTarget): boolean {
+  if (target.kind === 'tree') return false;
+  return target.location.startsWith('file://') || !/^https?:\/\//i.test(target.location);
+}
+
+async function fetchFingerprint(target: WatchTarget): Promise<string> {
+  switch (target.kind) {
+    case 'tree': {
+      const pages = await fetchConfluencePageTree(target.location, target.baseUrl);
+      return pages.map(page => `${page.id}:${page.version ?? hash(page.html)}`).join(',');
+    }
+    case 'page': {
+      const version = await fetchConfluencePageVersion(target.location);
+      if (version !== null) return `v${version}`;
+      return hash(await fetchConfluencePage(target.location));
+    }
+    case 'spec':
+      return hash(await fetchSpecDocument(target.location));
+  }
+}
+
+function hash(content: string): string {
+  return createHash('sha1').update(content).digest('hex');
+}